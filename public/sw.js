@@ -1,5 +1,8 @@
 // Simple Service Worker for caching static assets
 const CACHE_NAME = 'echonote-intro-v1.2.0'
+// Locale bundles are content-hashed, so they outlive CACHE_NAME version bumps
+const LOCALE_CACHE_NAME = 'echonote-locales'
+const LOCALE_CHUNK_PATTERN = /\/js\/locales\/([a-z]{2}(?:-[A-Z]{2})?)-[\w-]+\.js$/
 const STATIC_CACHE_URLS = [
   '/',
   '/index.html',
@@ -33,7 +36,7 @@ self.addEventListener('activate', event => {
       .then(cacheNames => {
         return Promise.all(
           cacheNames.map(cacheName => {
-            if (cacheName !== CACHE_NAME) {
+            if (cacheName !== CACHE_NAME && cacheName !== LOCALE_CACHE_NAME) {
               return caches.delete(cacheName)
             }
           })
@@ -45,6 +48,26 @@ self.addEventListener('activate', event => {
   )
 })
 
+// Locale bundles - serve from the locale cache, replacing older builds of the same locale
+const cacheLocaleChunk = async (request, locale) => {
+  const cache = await caches.open(LOCALE_CACHE_NAME)
+  const cached = await cache.match(request)
+  if (cached) {
+    return cached
+  }
+
+  const response = await fetch(request)
+  if (response.status === 200) {
+    const stale = (await cache.keys()).filter(key => {
+      const match = new URL(key.url).pathname.match(LOCALE_CHUNK_PATTERN)
+      return match && match[1] === locale
+    })
+    await Promise.all(stale.map(key => cache.delete(key)))
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
 // Fetch event - serve from cache, fallback to network
 self.addEventListener('fetch', event => {
   // Only handle GET requests
@@ -57,6 +80,12 @@ self.addEventListener('fetch', event => {
     return
   }
 
+  const localeMatch = new URL(event.request.url).pathname.match(LOCALE_CHUNK_PATTERN)
+  if (localeMatch) {
+    event.respondWith(cacheLocaleChunk(event.request, localeMatch[1]))
+    return
+  }
+
   event.respondWith(
     caches
       .match(event.request)
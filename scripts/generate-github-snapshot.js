@@ -0,0 +1,229 @@
+#!/usr/bin/env node
+
+/**
+ * GitHub Data Snapshot Generator
+ *
+ * Fetches repository stats, contributors and releases (with assets and download
+ * counts) and writes them to src/data/github-snapshot.json. Production builds
+ * serve this snapshot instead of calling the GitHub API from the browser.
+ *
+ * Each run also appends the asset download counts to src/data/download-history.json,
+ * so download trends can be charted over time, and records the SHA-256 hashes
+ * and signatures a release publishes (SHA256SUMS, *.sha256, *.sig, *.asc) on
+ * the matching release in src/data/changelog.json.
+ *
+ * Usage:
+ *   node scripts/generate-github-snapshot.js [--repo owner/repo]... [--max-pages N]
+ *   node scripts/generate-github-snapshot.js --check
+ *
+ * Without --repo, every repository in APP_CONFIG.github.repositories is used.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { importSource } from './lib/source-loader.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+const { APP_CONFIG } = await importSource('config/app.ts')
+
+// Configuration
+const DEFAULT_REPOS = APP_CONFIG.github.repositories
+const SNAPSHOT_PATH = join(__dirname, '../src/data/github-snapshot.json')
+const HISTORY_PATH = join(__dirname, '../src/data/download-history.json')
+const CHANGELOG_PATH = join(__dirname, '../src/data/changelog.json')
+const CHECKSUM_FETCH_TIMEOUT = 30 * 1000
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const checkOnly = args.includes('--check')
+const repos = args.flatMap((arg, index) =>
+  arg === '--repo' && args[index + 1] ? [args[index + 1]] : []
+)
+const maxPagesIndex = args.indexOf('--max-pages')
+const maxPages = maxPagesIndex !== -1 ? parseInt(args[maxPagesIndex + 1]) : 10
+const targetRepos = repos.length > 0 ? repos : DEFAULT_REPOS
+
+const { GitHubClient } = await importSource('utils/github.ts')
+const {
+  appendDownloadSample,
+  createDownloadSample,
+  createRepositorySnapshot,
+  validateDownloadHistory,
+  validateGitHubSnapshot,
+} = await importSource('utils/githubSnapshot.ts')
+const { applyVerification, digestToSha256, findChecksumAssets, parseChecksums } =
+  await importSource('utils/releaseVerification.ts')
+
+function assertValid(snapshot, validate = validateGitHubSnapshot, label = 'Snapshot') {
+  const errors = validate(snapshot)
+  if (errors.length > 0) {
+    console.error(`❌ ${label} does not match the GitHub types:`)
+    errors.slice(0, 20).forEach(error => console.error(`   ${error}`))
+    if (errors.length > 20) console.error(`   ...and ${errors.length - 20} more`)
+    process.exit(1)
+  }
+}
+
+async function fetchRepositorySnapshot(client, repository) {
+  console.log(`📡 Fetching ${repository}...`)
+
+  const [repo, contributors, releases] = await Promise.all([
+    client.getRepository(repository),
+    client.getContributors(repository, {
+      perPage: 100,
+      maxPages,
+      onPage: (items, page) => console.log(`   👥 Contributors page ${page}: ${items.length}`),
+    }),
+    client.getReleases(repository, {
+      perPage: 100,
+      maxPages,
+      onPage: (items, page) => console.log(`   🚀 Releases page ${page}: ${items.length}`),
+    }),
+  ])
+
+  const snapshot = createRepositorySnapshot(repo, contributors, releases)
+  console.log(`   ⭐ Stars: ${snapshot.stats.stars}`)
+  console.log(`   👥 Contributors: ${snapshot.stats.contributors}`)
+  console.log(`   🚀 Releases: ${snapshot.stats.releases}`)
+  console.log(`   ⬇️  Downloads: ${snapshot.downloads.total}`)
+  // The raw releases keep the API's asset digests, which the snapshot drops
+  return { snapshot, releases }
+}
+
+// Returns the hashes and the number of checksum files that could not be read
+async function fetchReleaseHashes(release) {
+  const patterns = APP_CONFIG.downloads.verificationPatterns
+  const hashes = {}
+  let failed = 0
+
+  // GitHub reports a digest for assets uploaded since mid-2025
+  for (const asset of release.assets) {
+    const sha256 = digestToSha256(asset.digest)
+    if (sha256) hashes[asset.name] = sha256
+  }
+
+  // Published checksum files win over the digests
+  for (const { asset, fileName } of findChecksumAssets(release.assets, patterns)) {
+    try {
+      const response = await fetch(asset.browser_download_url, {
+        signal: AbortSignal.timeout(CHECKSUM_FETCH_TIMEOUT),
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      Object.assign(hashes, parseChecksums(await response.text(), fileName))
+    } catch (error) {
+      console.warn(`   ⚠️  ${release.tag_name}: could not read ${asset.name} (${error.message})`)
+      failed++
+    }
+  }
+
+  return { hashes, failed }
+}
+
+// Hashes never change once published, so releases that have them are skipped.
+// Returns the updated changelog, or null when nothing new was recorded.
+async function recordVerification(releases) {
+  if (!existsSync(CHANGELOG_PATH)) return null
+
+  const changelog = JSON.parse(readFileSync(CHANGELOG_PATH, 'utf8'))
+  let recorded = 0
+  const updated = []
+  for (const entry of changelog.releases) {
+    const release = releases.find(item => item.tag_name === entry.version)
+    if (!release || entry.assets.some(asset => asset.sha256)) {
+      updated.push(entry)
+      continue
+    }
+
+    const { hashes, failed } = await fetchReleaseHashes(release)
+    // Leave the release unrecorded so the next run tries the missing files again
+    if (failed > 0) {
+      console.warn(`   ⚠️  ${entry.version}: hashes not recorded, retrying on the next run`)
+      updated.push(entry)
+      continue
+    }
+    const verified = applyVerification(entry, hashes, APP_CONFIG.downloads.verificationPatterns)
+    const count = verified.assets.filter(asset => asset.sha256).length
+    if (count > 0) {
+      console.log(`   🔐 ${entry.version}: ${count} hashes`)
+      recorded++
+    }
+    updated.push(verified)
+  }
+
+  return recorded > 0 ? { ...changelog, releases: updated } : null
+}
+
+function loadHistory() {
+  return existsSync(HISTORY_PATH)
+    ? JSON.parse(readFileSync(HISTORY_PATH, 'utf8'))
+    : { repositories: {} }
+}
+
+async function main() {
+  if (checkOnly) {
+    if (!existsSync(SNAPSHOT_PATH)) {
+      console.error(`❌ ${SNAPSHOT_PATH} does not exist`)
+      process.exit(1)
+    }
+    assertValid(JSON.parse(readFileSync(SNAPSHOT_PATH, 'utf8')))
+    if (existsSync(HISTORY_PATH)) {
+      assertValid(loadHistory(), validateDownloadHistory, 'Download history')
+    }
+    console.log('✅ GitHub snapshot is valid')
+    return
+  }
+
+  console.log('📸 EchoNote GitHub Snapshot')
+  console.log(`📦 Repositories: ${targetRepos.join(', ')}`)
+  console.log('')
+
+  const client = new GitHubClient({
+    userAgent: 'EchoNote-Introduction-Snapshot',
+    token: process.env.GITHUB_TOKEN,
+    maxRateLimitWait: 5 * 60 * 1000, // Wait max 5 minutes
+  })
+
+  try {
+    const repositories = {}
+    let changelog = null
+    for (const repository of targetRepos) {
+      const { snapshot, releases } = await fetchRepositorySnapshot(client, repository)
+      repositories[repository] = snapshot
+      // The changelog only covers the main repository
+      if (repository.toLowerCase() === APP_CONFIG.github.repository.toLowerCase()) {
+        changelog = await recordVerification(releases)
+      }
+    }
+
+    const snapshot = { generatedAt: new Date().toISOString(), repositories }
+    assertValid(snapshot)
+
+    let history = loadHistory()
+    for (const [repository, { releases }] of Object.entries(repositories)) {
+      history = appendDownloadSample(
+        history,
+        repository,
+        createDownloadSample(releases, new Date(snapshot.generatedAt))
+      )
+    }
+    assertValid(history, validateDownloadHistory, 'Download history')
+
+    writeFileSync(SNAPSHOT_PATH, `${JSON.stringify(snapshot, null, 2)}\n`)
+    writeFileSync(HISTORY_PATH, `${JSON.stringify(history, null, 2)}\n`)
+    console.log('')
+    console.log('✅ Updated github-snapshot.json and download-history.json')
+    if (changelog) {
+      writeFileSync(CHANGELOG_PATH, `${JSON.stringify(changelog, null, 2)}\n`)
+      console.log('✅ Recorded release hashes in changelog.json')
+    }
+  } catch (error) {
+    // Keep the existing snapshot - a stale snapshot beats a broken build
+    console.error('❌ Snapshot generation failed:', error.message)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Release Feed Generator
+ *
+ * Builds RSS 2.0, Atom and JSON Feed files from src/data/changelog.json, one
+ * set per locale, and writes them to public/ so they ship with the site. The
+ * default locale gets releases.xml, releases.atom and releases.json; the others
+ * get releases.<locale>.xml and so on.
+ *
+ * Usage:
+ *   node scripts/generate-release-feeds.js [--site-url URL] [--out DIR]
+ */
+
+import { readFileSync, writeFileSync, readdirSync, mkdirSync } from 'fs'
+import { join, dirname, basename } from 'path'
+import { fileURLToPath } from 'url'
+import { importSource } from './lib/source-loader.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Configuration
+const DEFAULT_SITE_URL = 'https://johnnyzhao5619.github.io/echonote-introduction'
+const DEFAULT_LOCALE = 'en'
+const CHANGELOG_PATH = join(__dirname, '../src/data/changelog.json')
+const LOCALES_DIR = join(__dirname, '../src/locales')
+const DEFAULT_OUT_DIR = join(__dirname, '../public')
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const readArg = name => {
+  const index = args.indexOf(name)
+  return index !== -1 ? args[index + 1] : undefined
+}
+const siteUrl = (readArg('--site-url') ?? DEFAULT_SITE_URL).replace(/\/+$/, '')
+const outDir = readArg('--out') ?? DEFAULT_OUT_DIR
+
+const { FEED_BUILDERS, getFeedFileName } = await importSource('utils/releaseFeeds.ts')
+const { sortByVersionDesc } = await importSource('utils/semver.ts')
+
+function loadMessages(locale) {
+  return JSON.parse(readFileSync(join(LOCALES_DIR, `${locale}.json`), 'utf8'))
+}
+
+function main() {
+  console.log('📰 EchoNote Release Feeds')
+  console.log(`🌐 Site: ${siteUrl}`)
+  console.log('')
+
+  try {
+    const { releases } = JSON.parse(readFileSync(CHANGELOG_PATH, 'utf8'))
+    const sorted = sortByVersionDesc(releases)
+    const fallback = loadMessages(DEFAULT_LOCALE).changelog
+    const locales = readdirSync(LOCALES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => basename(file, '.json'))
+
+    mkdirSync(outDir, { recursive: true })
+
+    for (const locale of locales) {
+      const messages = loadMessages(locale).changelog ?? {}
+      const options = {
+        releases: sorted,
+        siteUrl,
+        locale,
+        defaultLocale: DEFAULT_LOCALE,
+        title: messages.feeds?.title ?? fallback.feeds.title,
+        description: messages.feeds?.description ?? fallback.feeds.description,
+        sectionLabels: { ...fallback.sections, ...messages.sections },
+      }
+
+      for (const [format, build] of Object.entries(FEED_BUILDERS)) {
+        const fileName = getFeedFileName(format, locale, DEFAULT_LOCALE)
+        writeFileSync(join(outDir, fileName), build(options))
+        console.log(`   ✅ ${fileName}`)
+      }
+    }
+
+    console.log('')
+    console.log(`✅ Generated feeds for ${sorted.length} releases in ${locales.length} locales`)
+  } catch (error) {
+    console.error('❌ Feed generation failed:', error.message)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -0,0 +1,30 @@
+/**
+ * Load TypeScript modules from src/ in Node scripts
+ *
+ * Uses jiti so scripts share the same typed code as the app (GitHub client,
+ * snapshot validation) instead of keeping JavaScript copies in sync by hand.
+ *
+ * Modules loaded here, and everything they import, run under plain Node, so
+ * they must not touch browser globals or Vue when imported. jiti maps
+ * `import.meta.env` to `process.env`: `VITE_*` settings in `APP_CONFIG` follow
+ * the script's environment, while Vite's own `DEV` and `PROD` flags are
+ * undefined. Pass anything that depends on them in explicitly.
+ */
+
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { createJiti } from 'jiti'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const SRC_DIR = join(__dirname, '../../src')
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': SRC_DIR },
+})
+
+/**
+ * Import a module by its path relative to src/, e.g. `utils/github.ts`
+ */
+export function importSource(path) {
+  return jiti.import(join(SRC_DIR, path))
+}
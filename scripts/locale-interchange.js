@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+
+/**
+ * Locale Interchange
+ *
+ * Exports a locale from src/locales as XLIFF 2.0 or gettext PO for
+ * translators, and imports the edited file back into the locale JSON. Key
+ * paths are the unit ids, English is the source text, and strings that are
+ * missing or flagged by the translation report are marked as needing review.
+ *
+ * Usage:
+ *   node scripts/locale-interchange.js export --locale fr [--format xliff|po] [--out FILE]
+ *   node scripts/locale-interchange.js import FILE [--locale fr] [--dry-run]
+ *
+ * Export writes <locale>.xlf or <locale>.po unless --out is given. Import
+ * detects the format from the file extension, prints what changed and
+ * rewrites src/locales/<locale>.json unless --dry-run is given.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs'
+import { join, dirname, extname } from 'path'
+import { fileURLToPath } from 'url'
+import * as prettier from 'prettier'
+import { importSource } from './lib/source-loader.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Configuration
+const LOCALES_DIR = join(__dirname, '../src/locales')
+
+const { APP_CONFIG } = await importSource('config/app.ts')
+const { TRANSLATION_GLOSSARY, generateTranslationReport } = await importSource(
+  'utils/translationManager.ts'
+)
+const { INTERCHANGE_FORMATS, buildUnits, applyUnits } = await importSource(
+  'utils/localeInterchange.ts'
+)
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const readArg = name => {
+  const index = args.indexOf(name)
+  return index !== -1 ? args[index + 1] : undefined
+}
+const command = args[0]
+const sourceLocale = APP_CONFIG.translation.fallbackLocale
+
+const localePath = locale => join(LOCALES_DIR, `${locale}.json`)
+
+function loadLocale(locale) {
+  const file = localePath(locale)
+  if (!existsSync(file)) {
+    throw new Error(`Unknown locale ${locale}: ${file} does not exist`)
+  }
+  return JSON.parse(readFileSync(file, 'utf8'))
+}
+
+function detectFormat(file) {
+  const extension = extname(file).slice(1).toLowerCase()
+  if (extension === 'xliff') return 'xliff'
+  const format = Object.keys(INTERCHANGE_FORMATS).find(
+    key => INTERCHANGE_FORMATS[key].extension === extension
+  )
+  if (!format) throw new Error(`Cannot tell the format of ${file}; use .xlf, .xliff or .po`)
+  return format
+}
+
+async function exportLocale() {
+  const locale = readArg('--locale')
+  const format = readArg('--format') ?? 'xliff'
+  if (!locale) throw new Error('export needs --locale')
+  if (!INTERCHANGE_FORMATS[format]) {
+    throw new Error(
+      `Unknown format "${format}". Use one of: ${Object.keys(INTERCHANGE_FORMATS).join(', ')}`
+    )
+  }
+
+  const reference = loadLocale(sourceLocale)
+  const messages = loadLocale(locale)
+  const report = await generateTranslationReport(reference, messages, locale)
+  const flagged = new Set(
+    report.issues.filter(issue => issue.severity !== 'low').map(issue => issue.path)
+  )
+  const units = buildUnits(reference, messages, locale, {
+    glossary: TRANSLATION_GLOSSARY,
+    flagged,
+  })
+
+  const outFile = readArg('--out') ?? `${locale}.${INTERCHANGE_FORMATS[format].extension}`
+  writeFileSync(
+    outFile,
+    INTERCHANGE_FORMATS[format].serialize({ sourceLocale, targetLocale: locale, units })
+  )
+
+  const pending = units.filter(unit => unit.needsReview).length
+  console.log(`📤 Exported ${units.length} strings for ${locale} to ${outFile}`)
+  console.log(`📝 ${pending} marked as needing review`)
+}
+
+function printList(label, ids) {
+  if (ids.length === 0) return
+  console.log(`${label} (${ids.length}):`)
+  ids.forEach(id => console.log(`   ${id}`))
+}
+
+async function importLocale() {
+  const file = args[1]
+  if (!file || file.startsWith('--')) throw new Error('import needs a file')
+
+  const document = INTERCHANGE_FORMATS[detectFormat(file)].parse(readFileSync(file, 'utf8'))
+  const locale = readArg('--locale') ?? document.targetLocale
+  if (!locale) throw new Error(`${file} does not name its language; pass --locale`)
+  if (locale === sourceLocale) throw new Error(`${sourceLocale} is the source locale`)
+
+  const target = localePath(locale)
+  const { messages, diff } = applyUnits(
+    loadLocale(sourceLocale),
+    loadLocale(locale),
+    document.units
+  )
+
+  console.log(`📥 Importing ${document.units.length} strings for ${locale} from ${file}`)
+  console.log(`   ${diff.added.length} added, ${diff.changed.length} changed`)
+  printList('➕ Added', diff.added)
+  printList(
+    '✏️  Changed',
+    diff.changed.map(({ id, from, to }) => `${id}: "${from}" → "${to}"`)
+  )
+  printList('🗑️  Removed (no longer in English)', diff.removed)
+  printList('⚠️  Unknown keys, ignored', diff.unknown)
+  printList('⚠️  English changed since export', diff.staleSource)
+  printList('🔍 Still needs review', diff.needsReview)
+
+  if (args.includes('--dry-run')) {
+    console.log('ℹ️  Dry run, nothing written')
+    return
+  }
+
+  const options = await prettier.resolveConfig(target)
+  const output = await prettier.format(JSON.stringify(messages, null, 2), {
+    ...options,
+    filepath: target,
+  })
+  writeFileSync(target, output)
+  console.log(`✅ Updated ${target}`)
+}
+
+async function main() {
+  const commands = { export: exportLocale, import: importLocale }
+
+  try {
+    if (!commands[command]) {
+      throw new Error('Usage: locale-interchange.js export|import ... (see the script header)')
+    }
+    await commands[command]()
+  } catch (error) {
+    console.error('❌ Locale interchange failed:', error.message)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
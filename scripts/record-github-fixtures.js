@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * GitHub Fixture Recorder
+ *
+ * Calls every GitHub endpoint the site uses and saves the real responses
+ * (status, headers such as X-RateLimit-Remaining, and body) to
+ * tests/fixtures/github/<owner>-<repo>.json. Run the dev server, Playwright or
+ * Vitest with VITE_GITHUB_FIXTURES=replay to serve them without a network.
+ *
+ * Usage:
+ *   node scripts/record-github-fixtures.js [--repo owner/repo]...
+ *
+ * Without --repo, every repository in APP_CONFIG.github.repositories is used.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { importSource } from './lib/source-loader.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+const { APP_CONFIG } = await importSource('config/app.ts')
+
+// Configuration
+const DEFAULT_REPOS = APP_CONFIG.github.repositories
+const FIXTURES_DIR = join(__dirname, '../tests/fixtures/github')
+// The app's own pagination, so replayed URLs line up with its requests
+const { perPage: PER_PAGE, maxPages: MAX_PAGES } = APP_CONFIG.github.pagination
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const repos = args.flatMap((arg, index) =>
+  arg === '--repo' && args[index + 1] ? [args[index + 1]] : []
+)
+const targetRepos = repos.length > 0 ? repos : DEFAULT_REPOS
+
+const { GitHubClient } = await importSource('utils/github.ts')
+const { createFixtureSet, createRecordingFetch } = await importSource('utils/githubFixtures.ts')
+
+async function recordRepository(repository) {
+  console.log(`🎙️  Recording ${repository}...`)
+
+  const fixtures = createFixtureSet()
+  const client = new GitHubClient({
+    userAgent: 'EchoNote-Introduction-Fixtures',
+    token: process.env.GITHUB_TOKEN,
+    perPage: PER_PAGE,
+    maxPages: MAX_PAGES,
+    fetch: createRecordingFetch(fixtures),
+  })
+
+  await client.getRepository(repository)
+  await client.getContributors(repository)
+  await client.getReleases(repository)
+  await client.getLatestRelease(repository).catch(error => {
+    // Repositories without releases answer 404, which is worth replaying too
+    if (error.status !== 404) throw error
+  })
+
+  const file = join(FIXTURES_DIR, `${repository.replace('/', '-')}.json`)
+  writeFileSync(file, `${JSON.stringify(fixtures, null, 2)}\n`)
+  console.log(`   💾 ${Object.keys(fixtures.responses).length} responses → ${file}`)
+}
+
+async function main() {
+  mkdirSync(FIXTURES_DIR, { recursive: true })
+
+  try {
+    for (const repository of targetRepos) {
+      await recordRepository(repository)
+    }
+    console.log('')
+    console.log('✅ GitHub fixtures recorded')
+  } catch (error) {
+    console.error('❌ Recording failed:', error.message)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
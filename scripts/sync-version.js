@@ -13,14 +13,13 @@
 import { readFileSync, writeFileSync, existsSync } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
+import { importSource } from './lib/source-loader.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
 // Configuration
-// 读取应用配置 (预留用于未来配置读取)
 const DEFAULT_REPO = 'johnnyzhao5619/echonote'
-const GITHUB_API_BASE = 'https://api.github.com'
 const PROJECT_INFO_PATH = join(__dirname, '../src/data/project-info.json')
 const PACKAGE_JSON_PATH = join(__dirname, '../package.json')
 
@@ -35,71 +34,37 @@ console.log(`📦 Target repository: ${targetRepo}`)
 console.log(`🔧 Force update: ${forceUpdate}`)
 console.log('')
 
-async function fetchWithRetry(url, retries = 3) {
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          Accept: 'application/vnd.github.v3+json',
-          'User-Agent': 'EchoNote-Introduction-Sync',
-        },
-      })
-
-      if (response.ok) {
-        return response
-      }
-
-      if (response.status === 404) {
-        throw new Error(`Repository ${targetRepo} not found`)
-      }
-
-      if (response.status === 403) {
-        const remaining = response.headers.get('X-RateLimit-Remaining')
-        const resetTime = response.headers.get('X-RateLimit-Reset')
-
-        if (remaining === '0' && resetTime) {
-          const resetDate = new Date(parseInt(resetTime) * 1000)
-          const waitTime = resetDate.getTime() - Date.now()
-
-          if (waitTime > 0 && waitTime < 300000) {
-            // Wait max 5 minutes
-            console.log(`⏳ Rate limit exceeded. Waiting ${Math.ceil(waitTime / 1000)} seconds...`)
-            await new Promise(resolve => setTimeout(resolve, waitTime))
-            continue
-          }
-        }
-
-        throw new Error('GitHub API rate limit exceeded. Please try again later.')
-      }
-
-      if (i === retries - 1) {
-        throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`)
-      }
-    } catch (error) {
-      if (i === retries - 1) {
-        throw error
-      }
-      console.log(`⚠️  Attempt ${i + 1} failed, retrying...`)
-      await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
+const { GitHubClient, GitHubApiError, toProjectStats } = await importSource('utils/github.ts')
+
+const client = new GitHubClient({
+  userAgent: 'EchoNote-Introduction-Sync',
+  token: process.env.GITHUB_TOKEN,
+  maxRateLimitWait: 5 * 60 * 1000, // Wait max 5 minutes
+  onRetry: (attempt, error) => {
+    if (GitHubClient.isRateLimited(error)) {
+      console.log('⏳ Rate limit exceeded. Waiting for the rate limit window to reset...')
+    } else {
+      console.log(`⚠️  Attempt ${attempt} failed, retrying...`)
     }
-  }
-}
+  },
+})
 
 async function fetchRepositoryInfo() {
   console.log('📡 Fetching repository information...')
 
   try {
     // Fetch repository data
-    const repoResponse = await fetchWithRetry(`${GITHUB_API_BASE}/repos/${targetRepo}`)
-    const repo = await repoResponse.json()
+    const repo = await client.getRepository(targetRepo).catch(error => {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        throw new Error(`Repository ${targetRepo} not found`)
+      }
+      throw error
+    })
 
     // Fetch latest release
     let latestRelease = null
     try {
-      const releaseResponse = await fetchWithRetry(
-        `${GITHUB_API_BASE}/repos/${targetRepo}/releases/latest`
-      )
-      latestRelease = await releaseResponse.json()
+      latestRelease = await client.getLatestRelease(targetRepo)
       console.log(`Found latest release: ${latestRelease.tag_name}`)
     } catch {
       console.log('No releases found or error fetching release')
@@ -108,10 +73,7 @@ async function fetchRepositoryInfo() {
     // Fetch contributors
     let contributorsCount = 0
     try {
-      const contributorsResponse = await fetchWithRetry(
-        `${GITHUB_API_BASE}/repos/${targetRepo}/contributors?per_page=100`
-      )
-      const contributors = await contributorsResponse.json()
+      const contributors = await client.getContributors(targetRepo, { perPage: 100 })
       contributorsCount = contributors.length
       console.log(`Found ${contributorsCount} contributors`)
     } catch {
@@ -124,17 +86,7 @@ async function fetchRepositoryInfo() {
       releaseDate: latestRelease?.published_at || new Date().toISOString(),
       releaseNotes: latestRelease?.body || 'No release notes available',
       downloadUrl: latestRelease?.html_url || `https://github.com/${targetRepo}/releases`,
-      stats: {
-        stars: repo.stargazers_count,
-        forks: repo.forks_count,
-        watchers: repo.watchers_count,
-        contributors: contributorsCount,
-        openIssues: repo.open_issues_count,
-        language: repo.language || 'Unknown',
-        license: repo.license?.name || 'Unknown',
-        lastUpdated: repo.updated_at,
-        description: repo.description || '',
-      },
+      stats: toProjectStats(repo, contributorsCount),
       lastSync: new Date().toISOString(),
     }
 
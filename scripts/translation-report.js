@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+/**
+ * Translation Report
+ *
+ * Runs the TranslationManager checks (completeness, placeholders, markup,
+ * length, punctuation and glossary terms) on every locale in src/locales
+ * against English, prints a score table, and exits with an error when a locale
+ * scores below APP_CONFIG.translation.validation.reportThreshold.
+ *
+ * Usage:
+ *   node scripts/translation-report.js [--format table|json|junit|markdown]
+ *     [--out FILE] [--threshold N]
+ *
+ * With --out, the report is written to FILE in the chosen format and the
+ * table still goes to the console; without it, the report goes to stdout.
+ */
+
+import { readFileSync, writeFileSync, readdirSync } from 'fs'
+import { join, dirname, basename } from 'path'
+import { fileURLToPath } from 'url'
+import { importSource } from './lib/source-loader.js'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Configuration
+const LOCALES_DIR = join(__dirname, '../src/locales')
+
+const { APP_CONFIG } = await importSource('config/app.ts')
+const { validateAllTranslations } = await importSource('utils/translationManager.ts')
+const { TRANSLATION_REPORT_FORMATTERS, findFailingLocales } = await importSource(
+  'utils/translationReportFormats.ts'
+)
+
+// Parse command line arguments
+const args = process.argv.slice(2)
+const readArg = name => {
+  const index = args.indexOf(name)
+  return index !== -1 ? args[index + 1] : undefined
+}
+const format = readArg('--format') ?? 'table'
+const outFile = readArg('--out')
+const threshold = Number(
+  readArg('--threshold') ?? APP_CONFIG.translation.validation.reportThreshold
+)
+
+function loadLocales() {
+  return Object.fromEntries(
+    readdirSync(LOCALES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => [
+        basename(file, '.json'),
+        JSON.parse(readFileSync(join(LOCALES_DIR, file), 'utf8')),
+      ])
+  )
+}
+
+async function main() {
+  if (!TRANSLATION_REPORT_FORMATTERS[format]) {
+    console.error(
+      `❌ Unknown format "${format}". Use one of: ${Object.keys(TRANSLATION_REPORT_FORMATTERS).join(', ')}`
+    )
+    process.exit(1)
+  }
+  if (Number.isNaN(threshold)) {
+    console.error('❌ --threshold must be a number')
+    process.exit(1)
+  }
+
+  try {
+    const locales = loadLocales()
+    const reference = locales[APP_CONFIG.translation.fallbackLocale]
+    if (!reference) {
+      throw new Error(`Missing reference locale ${APP_CONFIG.translation.fallbackLocale}.json`)
+    }
+
+    const reports = await validateAllTranslations(reference, locales)
+    const summary = { threshold, reports: Object.values(reports) }
+    const output = TRANSLATION_REPORT_FORMATTERS[format](summary)
+
+    if (outFile) {
+      writeFileSync(outFile, output)
+      console.log('🌍 EchoNote Translation Report')
+      console.log('')
+      console.log(TRANSLATION_REPORT_FORMATTERS.table(summary))
+      console.log('')
+      console.log(`📝 ${format} report written to ${outFile}`)
+    } else {
+      console.log(output)
+    }
+
+    const failing = findFailingLocales(summary)
+    if (failing.length > 0) {
+      console.error(`❌ Below the ${threshold}% threshold: ${failing.join(', ')}`)
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('❌ Translation report failed:', error.message)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -1,10 +1,36 @@
 import { ref, computed } from 'vue'
-import type { ChangelogData, ChangelogRelease, ParsedReleaseNotes } from '@/types/changelog'
+import { APP_CONFIG } from '@/config/app'
+import type {
+  ChangelogData,
+  ChangelogRelease,
+  ReleaseNoteCategory,
+  UpgradePath,
+} from '@/types/changelog'
+import type { DownloadPlatform } from '@/types/download'
+import { parseReleaseNotes } from '@/utils/releaseNotes'
+import { classifyAssetPlatform } from '@/utils/assetResolver'
+import {
+  compareVersions,
+  isPrereleaseVersion,
+  parseVersion,
+  sortByVersionDesc,
+} from '@/utils/semver'
 
 // Import the changelog data
 import changelogData from '@/data/changelog.json'
 
-const changelog = ref<ChangelogData>(changelogData as ChangelogData)
+// Newest first by semver precedence, whatever order the data file lists them in
+const changelog = ref<ChangelogData>({
+  ...(changelogData as ChangelogData),
+  releases: sortByVersionDesc((changelogData as ChangelogData).releases),
+})
+
+export type ReleaseChannel = 'all' | 'stable' | 'prerelease'
+
+export interface ReleaseFilter {
+  channel?: ReleaseChannel
+  query?: string
+}
 
 export function useChangelog() {
   const isLoading = ref(false)
@@ -33,8 +59,8 @@ export function useChangelog() {
     return `${Math.round((bytes / Math.pow(1024, i)) * 100) / 100} ${sizes[i]}`
   }
 
-  const formatDate = (dateString: string): string => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+  const formatDate = (dateString: string, locale = 'en-US'): string => {
+    return new Date(dateString).toLocaleDateString(locale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -54,54 +80,63 @@ export function useChangelog() {
     return `${Math.ceil(diffDays / 365)} years ago`
   }
 
-  const parseReleaseNotes = (body: string): ParsedReleaseNotes => {
-    const sections: ParsedReleaseNotes = {
+  // Versions are compared by semver, so `/changelog/1.2.0` finds v1.2.0
+  const findRelease = (version: string): ChangelogRelease | null => {
+    return (
+      changelog.value.releases.find(release => compareVersions(release.version, version) === 0) ||
+      null
+    )
+  }
+
+  // Search matches the version, title and release notes, case-insensitively
+  const filterReleases = ({ channel = 'all', query = '' }: ReleaseFilter = {}) => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+
+    return changelog.value.releases.filter(release => {
+      if (channel === 'stable' && release.prerelease) return false
+      if (channel === 'prerelease' && !release.prerelease) return false
+
+      const text = `${release.version} ${release.title} ${release.body}`.toLowerCase()
+      return terms.every(term => text.includes(term))
+    })
+  }
+
+  /**
+   * Every change between two versions, e.g. for "what's new since 1.1.0".
+   * `to` defaults to the latest stable release; prereleases are only included
+   * when upgrading to a prerelease. Returns null for unparsable versions.
+   */
+  const getUpgradePath = (from: string, to?: string): UpgradePath | null => {
+    const target = to ?? stableReleases.value[0]?.version ?? latestRelease.value?.version
+    if (!target || !parseVersion(from) || !parseVersion(target)) return null
+
+    const includePrereleases = isPrereleaseVersion(target)
+    const releases = changelog.value.releases
+      .filter(
+        release =>
+          compareVersions(release.version, from) > 0 &&
+          compareVersions(release.version, target) <= 0 &&
+          (includePrereleases || !release.prerelease)
+      )
+      .reverse()
+
+    const categories: UpgradePath['categories'] = {
       features: [],
       bugFixes: [],
       improvements: [],
       breaking: [],
       other: [],
     }
-
-    if (!body) return sections
-
-    const lines = body.split('\n')
-    let currentSection = 'other'
-
-    for (const line of lines) {
-      const trimmedLine = line.trim()
-
-      // Detect section headers
-      if (trimmedLine.toLowerCase().includes('feature')) {
-        currentSection = 'features'
-        continue
-      } else if (
-        trimmedLine.toLowerCase().includes('bug') ||
-        trimmedLine.toLowerCase().includes('fix')
-      ) {
-        currentSection = 'bugFixes'
-        continue
-      } else if (
-        trimmedLine.toLowerCase().includes('improvement') ||
-        trimmedLine.toLowerCase().includes('enhance')
-      ) {
-        currentSection = 'improvements'
-        continue
-      } else if (trimmedLine.toLowerCase().includes('breaking')) {
-        currentSection = 'breaking'
-        continue
-      }
-
-      // Extract list items
-      if (trimmedLine.startsWith('- ') || trimmedLine.startsWith('* ')) {
-        const item = trimmedLine.substring(2).trim()
-        if (item) {
-          sections[currentSection as keyof ParsedReleaseNotes].push(item)
+    for (const release of releases) {
+      const notes = parseReleaseNotes(release.body).document.categories
+      for (const category of Object.keys(categories) as ReleaseNoteCategory[]) {
+        if (notes[category].length > 0) {
+          categories[category].push({ version: release.version, items: notes[category] })
         }
       }
     }
 
-    return sections
+    return { from, to: target, releases, categories }
   }
 
   const getTotalDownloads = (release: ChangelogRelease): number => {
@@ -115,7 +150,7 @@ export function useChangelog() {
   })
 
   const getDownloadsByPlatform = computed(() => {
-    const platforms = {
+    const platforms: Record<DownloadPlatform, number> = {
       windows: 0,
       macos: 0,
       linux: 0,
@@ -124,21 +159,8 @@ export function useChangelog() {
 
     changelog.value.releases.forEach(release => {
       release.assets.forEach(asset => {
-        const name = asset.name.toLowerCase()
-        if (name.includes('windows') || name.includes('.exe')) {
-          platforms.windows += asset.downloadCount
-        } else if (name.includes('macos') || name.includes('darwin') || name.includes('.dmg')) {
-          platforms.macos += asset.downloadCount
-        } else if (
-          name.includes('linux') ||
-          name.includes('.appimage') ||
-          name.includes('.deb') ||
-          name.includes('.rpm')
-        ) {
-          platforms.linux += asset.downloadCount
-        } else {
-          platforms.other += asset.downloadCount
-        }
+        platforms[classifyAssetPlatform(asset.name, APP_CONFIG.downloads.assetPatterns)] +=
+          asset.downloadCount
       })
     })
 
@@ -172,6 +194,9 @@ export function useChangelog() {
     formatDate,
     formatRelativeDate,
     parseReleaseNotes,
+    findRelease,
+    filterReleases,
+    getUpgradePath,
     getTotalDownloads,
     getAllTimeDownloads,
     getDownloadsByPlatform,
@@ -0,0 +1,45 @@
+import { computed } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+import {
+  getAdoptionCurves,
+  getPlatformShareTrend,
+  getWeeklyDownloads,
+  mergeDownloadHistories,
+} from '@/utils/downloadAnalytics'
+import { readDownloadHistory } from '@/utils/githubSnapshot'
+
+// Dated download counts, appended by scripts/generate-github-snapshot.js
+import historyData from '@/data/download-history.json'
+
+const history = readDownloadHistory(historyData)
+
+/**
+ * Download trends for the tracked repositories, from the recorded history
+ * rather than the single snapshot `useChangelog` sees
+ */
+export function useDownloadAnalytics(
+  repositories: string[] = APP_CONFIG.github.repositories,
+  { maxReleases = 5 }: { maxReleases?: number } = {}
+) {
+  const samples = computed(() => mergeDownloadHistories(history, repositories))
+
+  // Most downloaded releases only - more lines than this are unreadable
+  const adoptionCurves = computed(() => getAdoptionCurves(samples.value).slice(0, maxReleases))
+  const platformTrend = computed(() =>
+    getPlatformShareTrend(samples.value, APP_CONFIG.downloads.assetPatterns)
+  )
+  const weeklyDownloads = computed(() => getWeeklyDownloads(samples.value))
+
+  // Trends need at least two samples to show anything
+  const hasTrends = computed(() => samples.value.length > 1)
+  const lastRecorded = computed(() => samples.value[samples.value.length - 1]?.date ?? null)
+
+  return {
+    samples,
+    adoptionCurves,
+    platformTrend,
+    weeklyDownloads,
+    hasTrends,
+    lastRecorded,
+  }
+}
@@ -0,0 +1,73 @@
+import { computed } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+import { useChangelog } from '@/composables/useChangelog'
+import { useGitHubApi } from '@/composables/useGitHubApi'
+import { useRepository } from '@/composables/useRepository'
+import { describeAssets, resolveDownloads, toReleaseAsset } from '@/utils/assetResolver'
+import { findChecksumAssets, verifyAssets } from '@/utils/releaseVerification'
+import type { DownloadTarget, ReleaseAsset } from '@/types/download'
+
+/**
+ * Installers of the latest stable release, matched to platforms by file name.
+ * Reads the GitHub releases (served from the snapshot in production); for the
+ * main repository, the changelog data covers releases the API has not returned
+ * and supplies the hashes recorded by the release sync.
+ */
+export function useDownloads(repository?: string) {
+  const repo = useRepository(repository)
+  const { releases, fetchReleases } = useGitHubApi(repo.fullName)
+  const { stableReleases, formatFileSize } = useChangelog()
+
+  const patterns = APP_CONFIG.downloads.assetPatterns
+  const verificationPatterns = APP_CONFIG.downloads.verificationPatterns
+  const isMainRepository =
+    repo.fullName.toLowerCase() === APP_CONFIG.github.repository.toLowerCase()
+
+  // Hashes recorded in the changelog, by release version and asset name
+  const recordedHashes = (version: string): Record<string, string> => {
+    if (!isMainRepository) return {}
+    const release = stableReleases.value.find(item => item.version === version)
+    return Object.fromEntries(
+      release?.assets.flatMap(asset => (asset.sha256 ? [[asset.name, asset.sha256]] : [])) ?? []
+    )
+  }
+
+  const assets = computed<ReleaseAsset[]>(() => {
+    const latest = releases.value.find(release => !release.draft && !release.prerelease)
+    if (latest && latest.assets.length > 0) {
+      return verifyAssets(
+        latest.assets.map(toReleaseAsset),
+        recordedHashes(latest.tag_name),
+        verificationPatterns
+      )
+    }
+    if (!isMainRepository) return []
+    return verifyAssets(
+      stableReleases.value[0]?.assets.map(toReleaseAsset) ?? [],
+      {},
+      verificationPatterns
+    )
+  })
+
+  const installers = computed(() => describeAssets(assets.value, patterns))
+
+  const resolve = (target: DownloadTarget) => resolveDownloads(assets.value, target, patterns)
+
+  // SHA256SUMS-style manifest covering every file of the release
+  const checksumsUrl = computed(
+    () =>
+      findChecksumAssets(assets.value, verificationPatterns).find(({ fileName }) => !fileName)
+        ?.asset.url ?? null
+  )
+
+  return {
+    assets,
+    installers,
+    resolve,
+    checksumsUrl,
+    fetchReleases,
+    formatFileSize,
+    // Release page to fall back on when no asset matches
+    releasePageUrl: repo.latestReleaseUrl,
+  }
+}
@@ -1,246 +1,396 @@
-import { ref, computed } from 'vue'
+import { ref, shallowRef, computed, readonly, getCurrentScope, onScopeDispose } from 'vue'
+import type { ComputedRef, Ref } from 'vue'
 import { APP_CONFIG } from '@/config/app'
+import { GitHubClient, toGitHubStats } from '@/utils/github'
+import { GitHubRateLimitTracker } from '@/utils/githubRateLimit'
+import { CacheStore, createCacheBackend, type CacheBackendType } from '@/utils/cacheStorage'
+import { createReplayFetch, mergeFixtureSets, type GitHubFixtureSet } from '@/utils/githubFixtures'
+import { readGitHubSnapshot } from '@/utils/githubSnapshot'
 import type {
   GitHubStats,
   GitHubRepository,
   GitHubContributor,
   GitHubRelease,
+  GitHubResult,
 } from '@/types/github'
+import snapshotData from '@/data/github-snapshot.json'
+import projectInfoData from '@/data/project-info.json'
+import changelogData from '@/data/changelog.json'
+
+// Validated at startup: a missing, hand-edited or stale-format snapshot is ignored
+const snapshot = readGitHubSnapshot(snapshotData)
+
+// Shared cache stores - release lists go to IndexedDB, everything else to localStorage
+const createStore = (backend: CacheBackendType) =>
+  new CacheStore({
+    backend: createCacheBackend(backend, 'github-'),
+    maxEntries: APP_CONFIG.performance.thresholds.cacheSize,
+    maxStaleAge: APP_CONFIG.github.cache.maxStaleAge,
+  })
+
+const cache = createStore(APP_CONFIG.github.cache.backend)
+const releasesCache = createStore(APP_CONFIG.github.cache.releasesBackend)
+
+// Recorded responses, only loaded when fixture replay is enabled. The env check
+// sits here rather than in APP_CONFIG so Vite can fold it and leave the
+// recordings out of builds that do not replay them
+const loadFixtures = async (): Promise<GitHubFixtureSet> => {
+  const modules =
+    import.meta.env.VITE_GITHUB_FIXTURES === 'replay'
+      ? import.meta.glob<GitHubFixtureSet>('/tests/fixtures/github/*.json', { import: 'default' })
+      : {}
+  return mergeFixtureSets(await Promise.all(Object.values(modules).map(load => load())))
+}
 
-export function useGitHubApi(repository: string = APP_CONFIG.github.repository) {
-  // State
-  const isLoading = ref(false)
-  const error = ref<string | null>(null)
-  const stats = ref<GitHubStats | null>(null)
-  const repoData = ref<GitHubRepository | null>(null)
-  const contributors = ref<GitHubContributor[]>([])
-  const releases = ref<GitHubRelease[]>([])
+// Rate-limit budget shared by every request, mirrored into reactive state for the UI
+const rateLimitTracker = new GitHubRateLimitTracker(APP_CONFIG.github.rateLimit.threshold)
+const rateLimit = shallowRef(rateLimitTracker.state)
+// Time at which held-back requests resume, or null while the budget allows them
+const pausedUntil = ref<number | null>(null)
+let resumeTimer: ReturnType<typeof setTimeout> | null = null
+
+rateLimitTracker.subscribe(state => {
+  rateLimit.value = state
+  pausedUntil.value = rateLimitTracker.pausedUntil()
+
+  if (resumeTimer !== null) clearTimeout(resumeTimer)
+  resumeTimer =
+    pausedUntil.value === null
+      ? null
+      : setTimeout(() => (pausedUntil.value = null), pausedUntil.value - Date.now())
+})
+
+const client = new GitHubClient({
+  apiBase: APP_CONFIG.github.apiBase,
+  cacheTimeout: APP_CONFIG.github.cacheTimeout,
+  maxRetries: APP_CONFIG.github.rateLimit.maxRetries,
+  retryDelay: APP_CONFIG.github.rateLimit.delay,
+  staleWhileRevalidate: APP_CONFIG.github.cache.staleWhileRevalidate,
+  perPage: APP_CONFIG.github.pagination.perPage,
+  maxPages: APP_CONFIG.github.pagination.maxPages,
+  cache,
+  rateLimit: rateLimitTracker,
+  fetch: APP_CONFIG.github.fixtures.replay ? createReplayFetch(loadFixtures) : undefined,
+})
+
+// Shared per-repository state, so every consumer sees one reactive result
+interface RepositoryState {
+  isLoading: Ref<boolean>
+  isRevalidating: Ref<boolean>
+  error: Ref<string | null>
+  statsResult: Ref<GitHubResult<GitHubStats> | null>
+  stats: ComputedRef<GitHubStats | null>
+  repoData: Ref<GitHubRepository | null>
+  contributors: Ref<GitHubContributor[]>
+  releases: Ref<GitHubRelease[]>
+  inFlight: Map<string, Promise<unknown>>
+  consumers: number
+  pollTimer: ReturnType<typeof setInterval> | null
+}
 
-  // Computed
-  const apiUrl = computed(() => `${APP_CONFIG.github.apiBase}/repos/${repository}`)
-  const cacheKey = computed(() => `github-${repository.replace('/', '-')}`)
+export interface UseGitHubApiOptions {
+  // Periodically refresh stats until the last consumer of the repository is disposed
+  poll?: boolean
+}
 
-  // Cache configuration from centralized config
-  const CACHE_DURATION = APP_CONFIG.github.cacheTimeout
-  const RATE_LIMIT_DELAY = APP_CONFIG.github.rateLimit.delay
+const repositoryStates = new Map<string, RepositoryState>()
 
-  // Methods
-  const getCachedData = <T>(key: string): T | null => {
-    try {
-      const cached = localStorage.getItem(key)
-      if (!cached) return null
+const getRepositorySnapshot = (repository: string) =>
+  APP_CONFIG.github.snapshot.enabled ? snapshot?.repositories[repository] : undefined
 
-      const { data, timestamp } = JSON.parse(cached)
-      const now = Date.now()
-      const cacheAge = now - timestamp
+// Snapshot-only mode: production never calls the API from the browser unless live
+// refresh is opted into, even for a repository the snapshot is missing
+const servesSnapshot = APP_CONFIG.github.snapshot.enabled && !APP_CONFIG.github.snapshot.liveRefresh
 
-      if (cacheAge < CACHE_DURATION) {
-        return data
-      }
-    } catch (error) {
-      console.warn(`Failed to read cached data for ${key}:`, error)
-    }
-    return null
+// Last resort for the main repository: the stats synced into project-info.json at build time
+const getBuildTimeStats = (repository: string, error: string): GitHubResult<GitHubStats> | null => {
+  if (repository.toLowerCase() !== APP_CONFIG.github.repository.toLowerCase()) return null
+
+  return {
+    status: 'stale',
+    source: 'build',
+    asOf: projectInfoData.lastSync,
+    error,
+    data: {
+      stars: projectInfoData.stats.stars,
+      forks: projectInfoData.stats.forks,
+      contributors: projectInfoData.stats.contributors,
+      releases: changelogData.releases.length,
+      lastUpdate: projectInfoData.stats.lastUpdated,
+      version: projectInfoData.version,
+    },
   }
+}
 
-  const setCachedData = <T>(key: string, data: T): void => {
-    try {
-      const cacheData = {
-        data,
-        timestamp: Date.now(),
-      }
-      localStorage.setItem(key, JSON.stringify(cacheData))
-    } catch (error) {
-      console.warn(`Failed to cache data for ${key}:`, error)
+const getRepositoryState = (repository: string): RepositoryState => {
+  let state = repositoryStates.get(repository)
+  if (!state) {
+    // Seed from the build-time snapshot so the first render never waits on the API
+    const seed = getRepositorySnapshot(repository)
+    const statsResult = ref<GitHubResult<GitHubStats> | null>(
+      seed && snapshot
+        ? { status: 'ok', source: 'snapshot', asOf: snapshot.generatedAt, data: seed.stats }
+        : null
+    )
+    state = {
+      isLoading: ref(false),
+      isRevalidating: ref(false),
+      error: ref(null),
+      statsResult,
+      stats: computed(() => statsResult.value?.data ?? null),
+      repoData: ref(seed?.repo ?? null),
+      contributors: ref(seed?.contributors ?? []),
+      releases: ref(seed?.releases ?? []),
+      inFlight: new Map(),
+      consumers: 0,
+      pollTimer: null,
     }
+    repositoryStates.set(repository, state)
   }
+  return state
+}
 
-  const fetchWithRetry = async (
-    url: string,
-    retries = APP_CONFIG.github.rateLimit.maxRetries
-  ): Promise<Response> => {
-    for (let i = 0; i < retries; i++) {
-      try {
-        const response = await fetch(url)
-
-        if (response.status === 403) {
-          // Rate limit exceeded
-          const resetTime = response.headers.get('X-RateLimit-Reset')
-          if (resetTime) {
-            const resetDate = new Date(parseInt(resetTime) * 1000)
-            const waitTime = resetDate.getTime() - Date.now()
-            if (waitTime > 0 && waitTime < 60000) {
-              // Wait max 1 minute
-              await new Promise(resolve => setTimeout(resolve, waitTime))
-              continue
-            }
-          }
-        }
-
-        if (response.ok || response.status === 404) {
-          return response
-        }
+const stopPolling = (state: RepositoryState) => {
+  if (state.pollTimer !== null) {
+    clearInterval(state.pollTimer)
+    state.pollTimer = null
+  }
+}
 
-        if (i === retries - 1) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
+/**
+ * Drop all shared repository state (used by tests and on full resets)
+ */
+export const clearGitHubStore = (): void => {
+  repositoryStates.forEach(stopPolling)
+  repositoryStates.clear()
+  rateLimitTracker.reset()
+}
 
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY * (i + 1)))
-      } catch (err) {
-        if (i === retries - 1) {
-          throw err
-        }
-        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY * (i + 1)))
-      }
-    }
-    throw new Error('Max retries exceeded')
-  }
+export function useGitHubApi(
+  repository: string = APP_CONFIG.github.repository,
+  options: UseGitHubApiOptions = {}
+) {
+  // State
+  const state = getRepositoryState(repository)
+  const { isLoading, isRevalidating, error, statsResult, stats, repoData, contributors, releases } =
+    state
 
-  const fetchRepository = async (): Promise<GitHubRepository | null> => {
-    try {
-      // Check cache first
-      const cached = getCachedData<GitHubRepository>(`${cacheKey.value}-repo`)
-      if (cached) {
-        repoData.value = cached
-        return cached
-      }
+  // Computed
+  const apiUrl = computed(() => client.repoUrl(repository))
+  const cacheKey = computed(() => `github-${repository.replace('/', '-')}`)
 
-      const response = await fetchWithRetry(apiUrl.value)
-      if (!response.ok) {
-        throw new Error(`Failed to fetch repository: ${response.status}`)
-      }
+  // Concurrent callers of the same endpoint share one in-flight promise
+  const dedupe = <T>(endpoint: string, load: () => Promise<T>): Promise<T> => {
+    const pending = state.inFlight.get(endpoint)
+    if (pending) return pending as Promise<T>
 
-      const data = await response.json()
-      repoData.value = data
-      setCachedData(`${cacheKey.value}-repo`, data)
-      return data
-    } catch (err) {
-      console.warn('Failed to fetch repository data:', err)
-      return null
-    }
+    const promise = load().finally(() => state.inFlight.delete(endpoint))
+    state.inFlight.set(endpoint, promise)
+    return promise
   }
 
-  const fetchContributors = async (): Promise<GitHubContributor[]> => {
-    try {
-      // Check cache first
-      const cached = getCachedData<GitHubContributor[]>(`${cacheKey.value}-contributors`)
-      if (cached) {
-        contributors.value = cached
-        return cached
-      }
+  const fetchRepository = (): Promise<GitHubRepository | null> =>
+    dedupe('repo', async () => {
+      if (servesSnapshot) return repoData.value
 
-      const response = await fetchWithRetry(`${apiUrl.value}/contributors`)
-      if (!response.ok) {
-        return []
+      try {
+        const data = await client.getRepository(repository, {
+          cacheKey: `${cacheKey.value}-repo`,
+          onRevalidate: fresh => (repoData.value = fresh),
+        })
+        repoData.value = data
+        return data
+      } catch (err) {
+        console.warn('Failed to fetch repository data:', err)
+        return null
       }
+    })
 
-      const data = await response.json()
-      const contributorList = Array.isArray(data) ? data : []
-      contributors.value = contributorList
-      setCachedData(`${cacheKey.value}-contributors`, contributorList)
-      return contributorList
-    } catch (err) {
-      console.warn('Failed to fetch contributors:', err)
-      return []
-    }
-  }
+  const fetchContributors = (): Promise<GitHubContributor[]> =>
+    dedupe('contributors', async () => {
+      if (servesSnapshot) return contributors.value
 
-  const fetchReleases = async (): Promise<GitHubRelease[]> => {
-    try {
-      // Check cache first
-      const cached = getCachedData<GitHubRelease[]>(`${cacheKey.value}-releases`)
-      if (cached) {
-        releases.value = cached
-        return cached
-      }
-
-      const response = await fetchWithRetry(`${apiUrl.value}/releases`)
-      if (!response.ok) {
+      try {
+        const contributorList = await client.getContributors(repository, {
+          cacheKey: `${cacheKey.value}-contributors`,
+          // Render contributors progressively as each page arrives
+          onPage: (_items, _page, accumulated) => (contributors.value = [...accumulated]),
+          onRevalidate: fresh => (contributors.value = fresh),
+        })
+        contributors.value = contributorList
+        return contributorList
+      } catch (err) {
+        console.warn('Failed to fetch contributors:', err)
         return []
       }
+    })
 
-      const data = await response.json()
-      const releaseList = Array.isArray(data) ? data : []
-      releases.value = releaseList
-      setCachedData(`${cacheKey.value}-releases`, releaseList)
-      return releaseList
-    } catch (err) {
-      console.warn('Failed to fetch releases:', err)
-      return []
-    }
-  }
-
-  const fetchStats = async (): Promise<GitHubStats | null> => {
-    isLoading.value = true
-    error.value = null
+  const fetchReleases = (): Promise<GitHubRelease[]> =>
+    dedupe('releases', async () => {
+      if (servesSnapshot) return releases.value
 
-    try {
-      // Check cache first
-      const cached = getCachedData<GitHubStats>(`${cacheKey.value}-stats`)
-      if (cached) {
-        stats.value = cached
-        isLoading.value = false
-        return cached
+      try {
+        const releaseList = await client.getReleases(repository, {
+          cacheKey: `${cacheKey.value}-releases`,
+          cache: releasesCache,
+          onPage: (_items, _page, accumulated) => (releases.value = [...accumulated]),
+          onRevalidate: fresh => (releases.value = fresh),
+        })
+        releases.value = releaseList
+        return releaseList
+      } catch (err) {
+        console.warn('Failed to fetch releases:', err)
+        return []
       }
+    })
 
-      // Fetch all data concurrently
+  // Fetch every endpoint from the network (or a 304) and derive the stats. Any
+  // failure rejects, so callers fall back to older data instead of zero counts.
+  const loadStats = (): Promise<GitHubStats> =>
+    dedupe('stats:load', async () => {
       const [repo, contributorList, releaseList] = await Promise.all([
-        fetchRepository(),
-        fetchContributors(),
-        fetchReleases(),
+        client.getRepository(repository, {
+          cacheKey: `${cacheKey.value}-repo`,
+          staleWhileRevalidate: false,
+          // Stats cannot be derived without the repository itself
+          priority: 'critical',
+        }),
+        client.getContributors(repository, {
+          cacheKey: `${cacheKey.value}-contributors`,
+          staleWhileRevalidate: false,
+          onPage: (_items, _page, accumulated) => (contributors.value = [...accumulated]),
+        }),
+        client.getReleases(repository, {
+          cacheKey: `${cacheKey.value}-releases`,
+          cache: releasesCache,
+          staleWhileRevalidate: false,
+        }),
       ])
 
-      if (!repo) {
-        throw new Error('Failed to fetch repository data')
-      }
+      repoData.value = repo
+      contributors.value = contributorList
+      releases.value = releaseList
 
-      const statsData: GitHubStats = {
-        stars: repo.stargazers_count || 0,
-        forks: repo.forks_count || 0,
-        contributors: contributorList.length,
-        releases: releaseList.length,
-        lastUpdate: repo.updated_at || new Date().toISOString(),
-        version: releaseList[0]?.tag_name || '1.0.0',
+      const statsData = toGitHubStats(repo, contributorList, releaseList)
+      await cache.set(`${cacheKey.value}-stats`, { data: statsData, timestamp: Date.now() })
+      return statsData
+    })
+
+  const liveResult = (data: GitHubStats): GitHubResult<GitHubStats> => ({
+    status: 'ok',
+    source: 'live',
+    asOf: new Date().toISOString(),
+    data,
+  })
+
+  // Live API, then the cached value (however old), then build-time data
+  const fetchStats = (): Promise<GitHubResult<GitHubStats>> =>
+    dedupe('stats', async () => {
+      if (servesSnapshot) {
+        if (!statsResult.value) {
+          const reason = 'Not in the build-time snapshot'
+          statsResult.value = getBuildTimeStats(repository, reason) ?? {
+            status: 'error',
+            data: null,
+            error: reason,
+          }
+        }
+        return statsResult.value
       }
 
-      stats.value = statsData
-      setCachedData(`${cacheKey.value}-stats`, statsData)
-      return statsData
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error'
-      console.warn('Failed to fetch GitHub stats:', err)
-      error.value = errorMessage
-
-      // Return fallback stats
-      const fallbackStats: GitHubStats = {
-        stars: 0,
-        forks: 0,
-        contributors: 0,
-        releases: 0,
-        lastUpdate: new Date().toISOString(),
-        version: '1.0.0',
+      isLoading.value = true
+      error.value = null
+
+      // Check cache first - expired stats are still rendered while they refresh
+      const cached = await cache.get<GitHubStats>(`${cacheKey.value}-stats`)
+      const cachedAsOf = cached ? new Date(cached.timestamp).toISOString() : ''
+      const staleFromCache = (reason: string | null): GitHubResult<GitHubStats> | null =>
+        cached && {
+          status: 'stale',
+          source: 'cache',
+          asOf: cachedAsOf,
+          error: reason,
+          data: cached.data,
+        }
+
+      try {
+        const isFresh = cached && Date.now() - cached.timestamp < APP_CONFIG.github.cacheTimeout
+        const servedFromCache: GitHubResult<GitHubStats> | null =
+          cached && isFresh
+            ? { status: 'ok', source: 'cache', asOf: cachedAsOf, data: cached.data }
+            : APP_CONFIG.github.cache.staleWhileRevalidate
+              ? staleFromCache(null)
+              : null
+
+        if (servedFromCache) {
+          statsResult.value = servedFromCache
+
+          if (!isFresh) {
+            isRevalidating.value = true
+            loadStats()
+              .then(fresh => (statsResult.value = liveResult(fresh)))
+              .catch(err => {
+                console.warn('Failed to revalidate GitHub stats:', err)
+                // Keep the cached value, but record why it could not be refreshed
+                statsResult.value = staleFromCache(
+                  err instanceof Error ? err.message : 'Unknown error'
+                )
+              })
+              .finally(() => (isRevalidating.value = false))
+          }
+
+          return servedFromCache
+        }
+
+        statsResult.value = liveResult(await loadStats())
+        return statsResult.value
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+        console.warn('Failed to fetch GitHub stats:', err)
+
+        const fallback = staleFromCache(errorMessage) ?? getBuildTimeStats(repository, errorMessage)
+        if (fallback) {
+          statsResult.value = fallback
+        } else {
+          // Nothing to show - never invent numbers
+          error.value = errorMessage
+          statsResult.value = { status: 'error', data: null, error: errorMessage }
+        }
+        return statsResult.value
+      } finally {
+        isLoading.value = false
       }
+    })
 
-      stats.value = fallbackStats
-      return fallbackStats
-    } finally {
-      isLoading.value = false
-    }
+  const refreshStats = async (): Promise<GitHubResult<GitHubStats>> => {
+    // Clear cache and fetch fresh data
+    await Promise.all([
+      cache.remove(`${cacheKey.value}-stats`),
+      client.clearCache(`${cacheKey.value}-repo`),
+      client.clearCache(`${cacheKey.value}-contributors`),
+      client.clearCache(`${cacheKey.value}-releases`, releasesCache),
+    ])
+
+    return await fetchStats()
   }
 
-  const refreshStats = async (): Promise<GitHubStats | null> => {
-    // Clear cache and fetch fresh data
-    try {
-      localStorage.removeItem(`${cacheKey.value}-stats`)
-      localStorage.removeItem(`${cacheKey.value}-repo`)
-      localStorage.removeItem(`${cacheKey.value}-contributors`)
-      localStorage.removeItem(`${cacheKey.value}-releases`)
-    } catch (error) {
-      console.warn('Failed to clear cache:', error)
+  // Reference counting - polling stops once the last consumer is disposed
+  if (getCurrentScope()) {
+    state.consumers++
+    if (options.poll && !servesSnapshot && state.pollTimer === null) {
+      state.pollTimer = setInterval(() => {
+        void loadStats()
+          .then(fresh => (statsResult.value = liveResult(fresh)))
+          .catch(err => console.warn('Failed to poll GitHub stats:', err))
+      }, APP_CONFIG.github.pollInterval)
     }
 
-    return await fetchStats()
+    onScopeDispose(() => {
+      state.consumers--
+      if (state.consumers <= 0) {
+        stopPolling(state)
+      }
+    })
   }
 
   const formatDate = (dateString: string): string => {
@@ -261,13 +411,18 @@ export function useGitHubApi(repository: string = APP_CONFIG.github.repository)
   }
 
   const getTopContributors = (limit = 10): GitHubContributor[] => {
-    return contributors.value.sort((a, b) => b.contributions - a.contributions).slice(0, limit)
+    return [...contributors.value].sort((a, b) => b.contributions - a.contributions).slice(0, limit)
   }
 
   return {
     // State
     isLoading,
+    isRevalidating,
     error,
+    // Provenance of `stats` - source and "as of" time for labelling non-live data
+    statsResult: readonly(statsResult),
+    rateLimit: readonly(rateLimit),
+    pausedUntil: readonly(pausedUntil),
     stats,
     repoData,
     contributors,
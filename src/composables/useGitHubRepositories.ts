@@ -0,0 +1,126 @@
+import { computed } from 'vue'
+import type { ComputedRef } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+import { aggregateGitHubStats, mergeContributors } from '@/utils/github'
+import { createRepositoryContext } from '@/composables/useRepository'
+import { useGitHubApi } from '@/composables/useGitHubApi'
+import type {
+  AggregatedGitHubStats,
+  GitHubContributor,
+  GitHubDataSource,
+  GitHubResult,
+  GitHubStats,
+} from '@/types/github'
+
+// One row of the per-repository breakdown
+export interface GitHubRepositoryBreakdown {
+  repository: string
+  url: string
+  stats: GitHubStats | null
+  statsResult: GitHubResult<GitHubStats> | null
+  contributors: GitHubContributor[]
+}
+
+// Least to most trustworthy, so a combined result reports its weakest source
+const SOURCE_ORDER: GitHubDataSource[] = ['build', 'snapshot', 'cache', 'live']
+
+/**
+ * Combine per-repository results: the data is aggregated, the source and "as of"
+ * time are those of the least fresh repository, and any failure makes it stale
+ */
+const combineResults = (
+  results: (GitHubResult<GitHubStats> | null)[],
+  data: AggregatedGitHubStats | null
+): GitHubResult<AggregatedGitHubStats> | null => {
+  const loaded = results.filter((result): result is GitHubResult<GitHubStats> => result !== null)
+  if (loaded.length === 0) return null
+
+  const errors = loaded.flatMap(result =>
+    result.status !== 'ok' && result.error ? [result.error] : []
+  )
+  const withData = loaded.filter(result => result.status !== 'error')
+  const [weakest] = [...withData].sort(
+    (a, b) => SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source)
+  )
+
+  if (!data || !weakest) {
+    return { status: 'error', data: null, error: errors.join('; ') || 'Unknown error' }
+  }
+
+  const asOf = withData.map(result => result.asOf).sort()[0] ?? weakest.asOf
+  if (withData.length === loaded.length && withData.every(result => result.status === 'ok')) {
+    return { status: 'ok', source: weakest.source, asOf, data }
+  }
+  return { status: 'stale', source: weakest.source, asOf, error: errors.join('; ') || null, data }
+}
+
+/**
+ * GitHub data for several repositories side by side (the desktop app, this site,
+ * plugins...). Each repository keeps its own shared state in useGitHubApi; this
+ * adds aggregated stats and contributors merged by login.
+ */
+export function useGitHubRepositories(repositories: string[] = APP_CONFIG.github.repositories) {
+  const apis = repositories.map(repository => ({
+    repository,
+    url: createRepositoryContext(repository).url,
+    api: useGitHubApi(repository),
+  }))
+
+  const breakdown: ComputedRef<GitHubRepositoryBreakdown[]> = computed(() =>
+    apis.map(({ repository, url, api }) => ({
+      repository,
+      url,
+      stats: api.stats.value,
+      statsResult: api.statsResult.value,
+      contributors: api.contributors.value,
+    }))
+  )
+
+  const contributors = computed(() =>
+    mergeContributors(apis.map(({ api }) => api.contributors.value))
+  )
+
+  // The merged count is only a total when every repository's list has loaded
+  const hasAllContributors = computed(() =>
+    breakdown.value.every(item => item.contributors.length > 0 || item.stats?.contributors === 0)
+  )
+
+  const stats = computed(() =>
+    aggregateGitHubStats(
+      breakdown.value.flatMap(item => (item.stats ? [item.stats] : [])),
+      hasAllContributors.value ? contributors.value.length : undefined
+    )
+  )
+
+  const statsResult = computed(() =>
+    combineResults(
+      breakdown.value.map(item => item.statsResult),
+      stats.value
+    )
+  )
+
+  const isLoading = computed(() => apis.some(({ api }) => api.isLoading.value))
+
+  const fetchStats = async (): Promise<GitHubResult<AggregatedGitHubStats> | null> => {
+    await Promise.all(apis.map(({ api }) => api.fetchStats()))
+    return statsResult.value
+  }
+
+  const fetchContributors = async (): Promise<GitHubContributor[]> => {
+    await Promise.all(apis.map(({ api }) => api.fetchContributors()))
+    return contributors.value
+  }
+
+  return {
+    // State
+    isLoading,
+    stats,
+    statsResult,
+    contributors,
+    breakdown,
+
+    // Methods
+    fetchStats,
+    fetchContributors,
+  }
+}
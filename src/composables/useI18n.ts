@@ -1,25 +1,26 @@
 import { computed, watch, nextTick, ref } from 'vue'
 import { useI18n as useVueI18n } from 'vue-i18n'
 import { SUPPORTED_LANGUAGES, type SupportedLanguage } from '@/types/i18n'
-import { setDocumentLanguage } from '@/i18n'
+import { APP_CONFIG } from '@/config/app'
+import { loadingLocale, loadLocaleMessages, prefetchLocale, setDocumentLanguage } from '@/i18n'
+import { fetchLocaleMessages, isMessageLanguage } from '@/i18n/loader'
 import {
   translationManager,
   getFallbackTranslation,
+  checkTerminologyConsistency,
+  type TranslationIssue,
   type TranslationReport,
 } from '@/utils/translationManager'
 
-// Import all locale messages for validation
+// English is the reference for validation and fallbacks
 import en from '@/locales/en.json'
-import zhCN from '@/locales/zh-CN.json'
-import zhTW from '@/locales/zh-TW.json'
-import fr from '@/locales/fr.json'
 
 export function useI18n() {
-  const { locale, t, availableLocales } = useVueI18n()
+  const { locale, t, getLocaleMessage } = useVueI18n()
 
   // Translation validation state
   const translationReports = ref<Record<string, TranslationReport>>({})
-  const terminologyIssues = ref<Record<string, string[]>>({})
+  const terminologyIssues = ref<Record<string, TranslationIssue[]>>({})
   const isValidationComplete = ref(false)
 
   const currentLanguage = computed(() => locale.value as SupportedLanguage)
@@ -44,8 +45,29 @@ export function useI18n() {
     return report ? report.completeness : 100
   })
 
+  // Language whose messages are being fetched before switching to it
+  const loadingLanguage = computed(() => loadingLocale.value as SupportedLanguage | null)
+  const isLoadingLanguage = computed(() => loadingLocale.value !== null)
+
+  /**
+   * Start fetching a language, e.g. on hover, so switching to it is instant
+   */
+  const prefetchLanguage = (langCode: SupportedLanguage) => {
+    if (isMessageLanguage(langCode)) {
+      prefetchLocale(langCode)
+    }
+  }
+
   const changeLanguage = async (langCode: SupportedLanguage) => {
-    if (availableLocales.includes(langCode)) {
+    if (isMessageLanguage(langCode)) {
+      // Stay on the current language if its replacement cannot be fetched
+      try {
+        await loadLocaleMessages(langCode)
+      } catch (error) {
+        console.error(`Failed to load ${langCode} messages:`, error)
+        return
+      }
+
       locale.value = langCode
 
       // Save to localStorage with error handling
@@ -131,8 +153,7 @@ export function useI18n() {
    * Get current locale messages
    */
   const getCurrentMessages = () => {
-    const messages = { en, 'zh-CN': zhCN, 'zh-TW': zhTW, fr }
-    return messages[locale.value as keyof typeof messages] || en
+    return getLocaleMessage(locale.value) || en
   }
 
   /**
@@ -140,22 +161,24 @@ export function useI18n() {
    */
   const validateTranslations = async () => {
     try {
-      const allMessages = { en, 'zh-CN': zhCN, 'zh-TW': zhTW, fr }
+      const allMessages = Object.fromEntries(
+        await Promise.all(
+          APP_CONFIG.translation.supportedLocales.map(async code => [
+            code,
+            await fetchLocaleMessages(code),
+          ])
+        )
+      )
 
       // Generate translation reports using unified manager
       translationReports.value = await translationManager.validateAllTranslations(en, allMessages)
 
-      // Extract terminology issues from reports
-      terminologyIssues.value = {}
-      Object.entries(translationReports.value).forEach(([locale, report]) => {
-        const terminologyIssuesList = report.issues
-          .filter(issue => issue.type === 'terminology')
-          .map(issue => issue.message)
-
-        if (terminologyIssuesList.length > 0) {
-          terminologyIssues.value[locale] = terminologyIssuesList
-        }
-      })
+      // Glossary issues for every locale, English included
+      terminologyIssues.value = Object.fromEntries(
+        Object.entries(checkTerminologyConsistency(allMessages)).filter(
+          ([, issues]) => issues.length > 0
+        )
+      )
 
       isValidationComplete.value = true
 
@@ -205,8 +228,10 @@ export function useI18n() {
     { immediate: true }
   )
 
-  // Validate translations on initialization
-  validateTranslations()
+  // Validation fetches every locale, so it only runs where the validator is shown
+  if (APP_CONFIG.features.translationValidator) {
+    validateTranslations()
+  }
 
   return {
     t,
@@ -217,6 +242,9 @@ export function useI18n() {
     supportedLanguages,
     isRTL,
     changeLanguage,
+    prefetchLanguage,
+    loadingLanguage,
+    isLoadingLanguage,
     getBrowserLanguage,
     getLanguageName,
     validateTranslations,
@@ -0,0 +1,81 @@
+import { inject, provide, type InjectionKey } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+
+/**
+ * Repository context
+ * Every GitHub URL the site links to is derived from here, so the repository
+ * identity lives in one place (`APP_CONFIG.github`) instead of in each component.
+ */
+export interface RepositoryContext {
+  owner: string
+  repo: string
+  // `owner/repo`, as used by the GitHub API
+  fullName: string
+  url: string
+  apiUrl: string
+  readmeUrl: string
+  issuesUrl: string
+  discussionsUrl: string
+  releasesUrl: string
+  latestReleaseUrl: string
+  actionsUrl: string
+  licenseUrl: string
+  contributingUrl: string
+  wikiUrl: string
+  // Link to a file on the default branch, e.g. `CONTRIBUTING.md#testing`
+  fileUrl: (path: string) => string
+  wikiPageUrl: (page: string) => string
+  // Direct download of an asset attached to the latest release
+  downloadUrl: (assetName: string) => string
+}
+
+export const REPOSITORY_KEY: InjectionKey<RepositoryContext> = Symbol('repository')
+
+export const createRepositoryContext = (
+  fullName: string = APP_CONFIG.github.repository
+): RepositoryContext => {
+  const [owner = '', repo = ''] = fullName.split('/')
+  const url = `${APP_CONFIG.github.webBase}/${fullName}`
+  const releasesUrl = `${url}/releases`
+  const latestReleaseUrl = `${releasesUrl}/latest`
+  const fileUrl = (path: string) => `${url}/blob/${APP_CONFIG.github.defaultBranch}/${path}`
+  const wikiUrl = `${url}/wiki`
+
+  return {
+    owner,
+    repo,
+    fullName,
+    url,
+    apiUrl: `${APP_CONFIG.github.apiBase}/repos/${fullName}`,
+    readmeUrl: `${url}#readme`,
+    issuesUrl: `${url}/issues`,
+    discussionsUrl: `${url}/discussions`,
+    releasesUrl,
+    latestReleaseUrl,
+    actionsUrl: `${url}/actions`,
+    licenseUrl: fileUrl('LICENSE'),
+    contributingUrl: fileUrl('CONTRIBUTING.md'),
+    wikiUrl,
+    fileUrl,
+    wikiPageUrl: (page: string) => `${wikiUrl}/${page}`,
+    downloadUrl: (assetName: string) => `${latestReleaseUrl}/download/${assetName}`,
+  }
+}
+
+/**
+ * Provide the repository context to a component subtree
+ */
+export function provideRepository(fullName?: string): RepositoryContext {
+  const context = createRepositoryContext(fullName)
+  provide(REPOSITORY_KEY, context)
+  return context
+}
+
+/**
+ * Inject the repository context. An explicit `owner/repo` (e.g. a component prop)
+ * takes precedence; without a provider the context comes from `APP_CONFIG.github`.
+ */
+export function useRepository(override?: string): RepositoryContext {
+  if (override) return createRepositoryContext(override)
+  return inject(REPOSITORY_KEY, () => createRepositoryContext(), true)
+}
@@ -0,0 +1,117 @@
+import { computed, ref } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+import { useI18n } from '@/composables/useI18n'
+import { useSystemInfo } from '@/composables/useSystemInfo'
+import { formatOsRequirement } from '@/utils/platformDetection'
+import {
+  countMicrophones,
+  evaluateRequirements,
+  readDeviceCapabilities,
+  type DeviceNavigator,
+  type MediaDevicesLike,
+} from '@/utils/requirementsCheck'
+import type { InstallerPlatform } from '@/types/download'
+import type { DeviceCapabilities, RequirementId } from '@/types/platform'
+
+export type RequirementRow = RequirementId | 'additional'
+
+/**
+ * What each platform requires, worded for the current language
+ */
+export function useRequirementDescriptions() {
+  const { t } = useI18n()
+
+  const describeRequirement = (platform: InstallerPlatform, row: RequirementRow): string => {
+    const requirements = APP_CONFIG.systemRequirements[platform]
+    switch (row) {
+      case 'os':
+        return formatOsRequirement(platform, requirements.os)
+      case 'architecture':
+        return requirements.os.architectures
+          .map(architecture => t(`downloads.architectures.${architecture}`))
+          .join(' / ')
+      case 'memory':
+        return t('quickStart.requirements.values.memory', {
+          minimum: requirements.memory.minimumGB,
+          recommended: requirements.memory.recommendedGB,
+        })
+      case 'cpu':
+        return t('quickStart.requirements.values.cpu', {
+          minimum: requirements.cpu.minimumCores,
+          recommended: requirements.cpu.recommendedCores,
+        })
+      case 'storage':
+        return t('quickStart.requirements.values.storage', { size: requirements.storage.minimumMB })
+      case 'microphone':
+        if (!requirements.microphone) return t('quickStart.requirements.values.none')
+        return 'audioBackends' in requirements
+          ? t('quickStart.requirements.values.microphoneWith', {
+              backends: requirements.audioBackends,
+            })
+          : t('quickStart.requirements.values.microphone')
+      case 'additional':
+        return 'additional' in requirements
+          ? requirements.additional
+          : t('quickStart.requirements.values.none')
+    }
+  }
+
+  return { describeRequirement }
+}
+
+/**
+ * Checks the visitor's device against the system requirements of its platform.
+ * `probe()` reads everything the browser tells without asking; the microphone
+ * is only counted after `checkMicrophone()`, which asks for permission.
+ * Phones, tablets and unrecognised systems have no requirements to check.
+ */
+export function useRequirementsCheck() {
+  const { desktopSystem: system, detect } = useSystemInfo()
+
+  const device = ref<Omit<DeviceCapabilities, 'system'>>({})
+  const isChecking = ref(false)
+  const microphoneDenied = ref(false)
+
+  const canCheckMicrophone =
+    typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+
+  const probe = async (): Promise<void> => {
+    if (typeof navigator === 'undefined') return
+    isChecking.value = true
+    try {
+      const [capabilities] = await Promise.all([
+        readDeviceCapabilities(navigator as DeviceNavigator),
+        detect(),
+      ])
+      device.value = { ...device.value, ...capabilities }
+    } finally {
+      isChecking.value = false
+    }
+  }
+
+  const checkMicrophone = async (): Promise<void> => {
+    if (!canCheckMicrophone) return
+    const microphones = await countMicrophones(navigator.mediaDevices as MediaDevicesLike)
+    microphoneDenied.value = microphones === null
+    device.value = { ...device.value, microphones: microphones ?? undefined }
+  }
+
+  const checks = computed(() =>
+    system.value
+      ? evaluateRequirements(APP_CONFIG.systemRequirements[system.value.platform], {
+          ...device.value,
+          system: system.value,
+        })
+      : []
+  )
+
+  return {
+    system,
+    checks,
+    probe,
+    checkMicrophone,
+    canCheckMicrophone,
+    isChecking,
+    microphoneDenied,
+  }
+}
@@ -2,6 +2,7 @@ import { computed } from 'vue'
 import { useI18n } from 'vue-i18n'
 import { useHead } from '@unhead/vue'
 import { APP_CONFIG } from '@/config/app'
+import { FEED_FORMATS, getFeedFileName, type FeedFormat } from '@/utils/releaseFeeds'
 
 export interface SEOConfig {
   title?: string
@@ -41,6 +42,12 @@ export function useSEO(config: SEOConfig = {}) {
       url: `${baseUrl}${config.url || ''}`,
       image: config.image || `${baseUrl}/images/social/echonote-og-${currentLocale}.png`,
       alternateUrls,
+      // Release feeds in the current language, generated by scripts/generate-release-feeds.js
+      feeds: (Object.keys(FEED_FORMATS) as FeedFormat[]).map(format => ({
+        type: FEED_FORMATS[format].mimeType,
+        title: t('changelog.feeds.title'),
+        href: `${import.meta.env.BASE_URL}${getFeedFileName(format, currentLocale)}`,
+      })),
       siteName: APP_CONFIG.app.name,
     }
   })
@@ -106,6 +113,9 @@ export function useSEO(config: SEOConfig = {}) {
           href: alt.url,
         })),
 
+        // Release feed autodiscovery
+        ...data.feeds.map(feed => ({ rel: 'alternate', ...feed })),
+
         // Favicon and app icons
         { rel: 'icon', type: 'image/x-icon', href: '/favicon.ico' },
         { rel: 'apple-touch-icon', sizes: '180x180', href: '/apple-touch-icon.png' },
@@ -0,0 +1,58 @@
+import { computed, ref } from 'vue'
+import { APP_CONFIG } from '@/config/app'
+import {
+  checkSystemRequirements,
+  detectSystem,
+  isDesktopSystem,
+  parseUserAgent,
+  toDownloadArchitecture,
+} from '@/utils/platformDetection'
+import type { DownloadTarget } from '@/types/download'
+import type { SystemInfo } from '@/types/platform'
+
+/**
+ * The visitor's system, for download recommendations.
+ * `detect()` answers from the user agent at once, then refines the answer
+ * once the browser returns its Client Hints.
+ */
+export function useSystemInfo() {
+  const system = ref<SystemInfo | null>(null)
+
+  const detect = async (): Promise<void> => {
+    if (typeof navigator === 'undefined') return
+    system.value = parseUserAgent(navigator.userAgent)
+    system.value = await detectSystem()
+  }
+
+  // Null on phones, tablets and unrecognised systems, which have no installer
+  const desktopSystem = computed(() =>
+    system.value && isDesktopSystem(system.value) ? system.value : null
+  )
+
+  // What to download for this system; the architecture only when it has an installer
+  const downloadTarget = computed<DownloadTarget | null>(() =>
+    desktopSystem.value
+      ? {
+          platform: desktopSystem.value.platform,
+          architecture: toDownloadArchitecture(desktopSystem.value.architecture),
+        }
+      : null
+  )
+
+  const requirementIssues = computed(() =>
+    desktopSystem.value
+      ? checkSystemRequirements(
+          desktopSystem.value,
+          APP_CONFIG.systemRequirements[desktopSystem.value.platform].os
+        )
+      : []
+  )
+
+  return {
+    system,
+    desktopSystem,
+    detect,
+    downloadTarget,
+    requirementIssues,
+  }
+}
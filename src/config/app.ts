@@ -23,10 +23,32 @@ const getConfig = () => {
       owner: 'johnnyzhao5619',
       repo: 'echonote',
       introRepo: 'echonote-introduction',
+      defaultBranch: 'main',
       cacheTimeout: 10 * 60 * 1000, // 10 minutes
+      pollInterval: 15 * 60 * 1000, // 15 minutes
+      cache: {
+        backend: 'localStorage',
+        releasesBackend: 'indexedDB', // Release lists with assets can be large
+        staleWhileRevalidate: true,
+        maxStaleAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+      },
+      snapshot: {
+        // Production serves the build-time snapshot instead of calling the API
+        enabled: isProd,
+        liveRefresh: import.meta.env.VITE_GITHUB_LIVE_REFRESH === 'true',
+      },
+      fixtures: {
+        // Serve recorded responses from tests/fixtures/github instead of the network
+        replay: import.meta.env.VITE_GITHUB_FIXTURES === 'replay',
+      },
+      pagination: {
+        perPage: 100,
+        maxPages: 10, // Caps list endpoints at 1000 items
+      },
       rateLimit: {
         delay: 1000,
         maxRetries: 3,
+        threshold: 10, // Hold non-critical requests below this many remaining
       },
       get fullRepo() {
         return `${this.owner}/${this.repo}`
@@ -40,17 +62,24 @@ const getConfig = () => {
       get introRepository() {
         return this.fullIntroRepo
       },
+      // 社区面板汇总的仓库，第一个为主应用
+      get repositories(): string[] {
+        return [this.fullRepo, this.fullIntroRepo]
+      },
       get apiBase() {
         return 'https://api.github.com'
       },
+      get webBase() {
+        return 'https://github.com'
+      },
       get apiUrl() {
         return this.apiBase
       },
       get repoUrl() {
-        return `https://github.com/${this.fullRepo}`
+        return `${this.webBase}/${this.fullRepo}`
       },
       get introRepoUrl() {
-        return `https://github.com/${this.fullIntroRepo}`
+        return `${this.webBase}/${this.fullIntroRepo}`
       },
       get releasesUrl() {
         return `${this.repoUrl}/releases`
@@ -118,37 +147,76 @@ const getConfig = () => {
       } as const,
     },
 
-    // 下载链接 - 使用动态生成避免硬编码
-    get downloads() {
-      const baseDownloadUrl = `https://github.com/${this.github.fullRepo}/releases/latest/download`
-      return {
-        windows: `${baseDownloadUrl}/echonote-windows-x64.exe`,
-        macos: `${baseDownloadUrl}/echonote-macos.dmg`,
-        linux: `${baseDownloadUrl}/echonote-linux-x64.deb`,
-      }
+    // 下载资源匹配规则 - 按文件名从实际发布中识别平台、架构和安装包格式，避免硬编码文件名
+    downloads: {
+      assetPatterns: {
+        platforms: {
+          // 以分隔符界定 win，避免误匹配 darwin
+          windows: /(^|[-_.])win(dows|32|64)?([-_.]|$)|\.(exe|msi)$/i,
+          macos: /mac(os)?|darwin|osx|\.dmg$/i,
+          linux: /linux|\.(appimage|deb|rpm)$/i,
+        },
+        architectures: {
+          universal: /universal/i,
+          arm64: /arm64|aarch64/i,
+          x64: /x64|x86[-_]64|amd64/i,
+        },
+        formats: {
+          'tar.gz': /\.(tar\.gz|tgz)$/i,
+          exe: /\.exe$/i,
+          msi: /\.msi$/i,
+          dmg: /\.dmg$/i,
+          deb: /\.deb$/i,
+          rpm: /\.rpm$/i,
+          AppImage: /\.appimage$/i,
+        },
+        preferredFormats: {
+          windows: ['exe', 'msi'],
+          macos: ['dmg', 'tar.gz'],
+          linux: ['AppImage', 'deb', 'rpm', 'tar.gz'],
+        },
+        defaultArchitectures: {
+          windows: 'x64',
+          macos: 'universal',
+          linux: 'x64',
+        },
+        ignore: /\.(sha256|sha512|sig|asc|blockmap|yml|txt)$|checksums/i,
+      },
+      // 校验文件：SHA256SUMS 清单、单个文件的 .sha256 以及 .sig/.asc 签名
+      verificationPatterns: {
+        checksums: /sha256sums|checksums|\.sha256$/i,
+        signatures: /\.(sig|asc)$/i,
+      },
     },
 
-    // 系统要求
+    // 系统要求：数值型最低要求，供要求表格和浏览器内检测使用
     systemRequirements: {
       windows: {
-        os: 'Windows 10 (64-bit) or later',
-        memory: '4 GB RAM (8 GB recommended)',
-        storage: '500 MB available space',
-        audio: 'Microphone for voice input',
+        os: { minimumVersion: '10', architectures: ['x64', 'arm64'] },
+        memory: { minimumGB: 4, recommendedGB: 8 },
+        storage: { minimumMB: 500 },
+        cpu: { minimumCores: 2, recommendedCores: 4 },
+        microphone: true,
         additional: 'Microsoft Visual C++ Redistributable',
       },
       macos: {
-        os: 'macOS 10.14 (Mojave) or later',
-        memory: '4 GB RAM (8 GB recommended)',
-        storage: '500 MB available space',
-        audio: 'Microphone for voice input',
-        additional: 'No additional requirements',
+        os: { minimumVersion: '10.14', architectures: ['x64', 'arm64'] },
+        memory: { minimumGB: 4, recommendedGB: 8 },
+        storage: { minimumMB: 500 },
+        cpu: { minimumCores: 2, recommendedCores: 4 },
+        microphone: true,
       },
       linux: {
-        os: 'Ubuntu 18.04+ / Debian 10+ / Fedora 32+',
-        memory: '4 GB RAM (8 GB recommended)',
-        storage: '500 MB available space',
-        audio: 'Microphone for voice input (ALSA/PulseAudio)',
+        // 各发行版的最低版本；未列出的发行版不做检查
+        os: {
+          distroVersions: { ubuntu: '18.04', debian: '10', fedora: '32' },
+          architectures: ['x64', 'arm64'],
+        },
+        memory: { minimumGB: 4, recommendedGB: 8 },
+        storage: { minimumMB: 500 },
+        cpu: { minimumCores: 2, recommendedCores: 4 },
+        microphone: true,
+        audioBackends: 'ALSA/PulseAudio',
         additional: 'Python 3.8+ runtime (usually pre-installed)',
       },
     },
@@ -207,11 +275,11 @@ const getConfig = () => {
 
     // 外部链接 - 使用内部引用避免循环依赖
     get links() {
-      const baseRepoUrl = `https://github.com/${this.github.fullRepo}`
+      const baseRepoUrl = this.github.repoUrl
       return {
         releases: `${baseRepoUrl}/releases`,
         wiki: `${baseRepoUrl}/wiki`,
-        contributing: `${baseRepoUrl}/blob/main/CONTRIBUTING.md`,
+        contributing: `${baseRepoUrl}/blob/${this.github.defaultBranch}/CONTRIBUTING.md`,
         issues: `${baseRepoUrl}/issues`,
         discussions: `${baseRepoUrl}/discussions`,
         social: {
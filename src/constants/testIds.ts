@@ -21,6 +21,22 @@ export const TEST_IDS = {
   COPY_BUTTON: 'copy-button',
   STATS_DISPLAY: 'stats-display',
   STAT_ITEM: 'stat-item',
+  DATA_AS_OF: 'data-as-of',
+  DOWNLOAD_TRENDS: 'download-trends',
+  DOWNLOAD_OPTIONS: 'download-options',
+  REQUIREMENTS_WARNING: 'requirements-warning',
+  CHECKSUM_VERIFICATION: 'checksum-verification',
+  PACKAGE_CHANNELS: 'package-channels',
+  SYSTEM_CHECK: 'system-check',
+
+  // Changelog
+  CHANGELOG_VIEW: 'changelog-view',
+  CHANGELOG_RELEASE: 'changelog-release',
+  CHANGELOG_BREAKING: 'changelog-breaking',
+  CHANGELOG_FILTER: 'changelog-filter',
+  CHANGELOG_SEARCH: 'changelog-search',
+  CHANGELOG_UPGRADE: 'changelog-upgrade',
+  CHANGELOG_UPGRADE_FROM: 'changelog-upgrade-from',
 
   // CTA Buttons
   DOWNLOAD_BUTTON: 'download-button',
@@ -1,21 +1,13 @@
+import { ref } from 'vue'
 import { createI18n } from 'vue-i18n'
+import { fetchLocaleMessages, isMessageLanguage } from './loader'
 
-// Import locale messages
+// English is bundled as the fallback; other locales load on demand
 import en from '../locales/en.json'
-import zhCN from '../locales/zh-CN.json'
-import zhTW from '../locales/zh-TW.json'
-import fr from '../locales/fr.json'
 
 export type MessageLanguages = 'en' | 'zh-CN' | 'zh-TW' | 'fr'
 export type MessageSchema = typeof en
 
-const messages = {
-  en,
-  'zh-CN': zhCN,
-  'zh-TW': zhTW,
-  fr,
-}
-
 // Get browser language or default to English
 const getBrowserLanguage = (): MessageLanguages => {
   const browserLang = navigator.language || navigator.languages?.[0] || 'en'
@@ -38,8 +30,8 @@ const getBrowserLanguage = (): MessageLanguages => {
 // Get saved language from localStorage or use browser language
 const getSavedLanguage = (): MessageLanguages => {
   const saved = localStorage.getItem('echonote-language')
-  if (saved && Object.keys(messages).includes(saved)) {
-    return saved as MessageLanguages
+  if (saved && isMessageLanguage(saved)) {
+    return saved
   }
   return getBrowserLanguage()
 }
@@ -53,15 +45,46 @@ const setDocumentLanguage = (locale: string): void => {
 const initialLocale = getSavedLanguage() as MessageLanguages
 setDocumentLanguage(initialLocale)
 
-export const i18n = createI18n<[MessageSchema], MessageLanguages>({
+// Only English messages exist up front; loadLocaleMessages adds the rest
+export const i18n = createI18n<
+  [MessageSchema],
+  { messages: 'en'; datetimeFormats: MessageLanguages; numberFormats: MessageLanguages },
+  false
+>({
   legacy: false,
   locale: initialLocale,
   fallbackLocale: 'en',
-  messages,
+  messages: { en },
   globalInjection: true,
   missingWarn: false,
   fallbackWarn: false,
 })
 
-export { getBrowserLanguage, getSavedLanguage, setDocumentLanguage }
+// Locale whose messages are being fetched for display, if any
+export const loadingLocale = ref<MessageLanguages | null>(null)
+
+/**
+ * Fetch a locale's messages into i18n; resolves once the locale can be shown
+ */
+export const loadLocaleMessages = async (locale: MessageLanguages): Promise<void> => {
+  if (i18n.global.availableLocales.includes(locale)) return
+
+  loadingLocale.value = locale
+  try {
+    i18n.global.setLocaleMessage<MessageSchema>(locale, await fetchLocaleMessages(locale))
+  } finally {
+    if (loadingLocale.value === locale) loadingLocale.value = null
+  }
+}
+
+/**
+ * Warm a locale's chunk, and the service worker cache, without switching to it
+ */
+export const prefetchLocale = (locale: MessageLanguages): void => {
+  fetchLocaleMessages(locale).catch(error => {
+    console.warn(`Failed to prefetch ${locale} messages:`, error)
+  })
+}
+
+export { getBrowserLanguage, getSavedLanguage, setDocumentLanguage, initialLocale }
 export default i18n
@@ -0,0 +1,36 @@
+/**
+ * Locale loader
+ * English ships with the main bundle as the fallback; every other locale is
+ * split into its own chunk and fetched the first time it is needed.
+ */
+
+import en from '../locales/en.json'
+import type { MessageLanguages, MessageSchema } from '@/i18n'
+
+// Each loader must resolve to a MessageSchema, so a locale that drops or
+// reshapes an English key still fails type-checking
+const LOCALE_LOADERS: Record<MessageLanguages, () => Promise<{ default: MessageSchema }>> = {
+  en: () => Promise.resolve({ default: en }),
+  'zh-CN': () => import('../locales/zh-CN.json'),
+  'zh-TW': () => import('../locales/zh-TW.json'),
+  fr: () => import('../locales/fr.json'),
+}
+
+const requests = new Map<MessageLanguages, Promise<MessageSchema>>()
+
+export const isMessageLanguage = (value: string): value is MessageLanguages =>
+  Object.keys(LOCALE_LOADERS).includes(value)
+
+/**
+ * Messages for a locale. Concurrent and repeated calls share one request; a
+ * failed request is forgotten so the next call retries it.
+ */
+export const fetchLocaleMessages = (locale: MessageLanguages): Promise<MessageSchema> => {
+  const pending = requests.get(locale)
+  if (pending) return pending
+
+  const request = LOCALE_LOADERS[locale]().then(module => module.default)
+  requests.set(locale, request)
+  request.catch(() => requests.delete(locale))
+  return request
+}
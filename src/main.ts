@@ -6,7 +6,8 @@ import { createApp } from 'vue'
 import { createUnhead } from '@unhead/vue'
 import App from './App.vue'
 import router from './router'
-import i18n from './i18n'
+import i18n, { initialLocale, loadLocaleMessages } from './i18n'
+import { REPOSITORY_KEY, createRepositoryContext } from './composables/useRepository'
 import { initPerformanceMonitoring, registerServiceWorker } from './utils/performance'
 
 // Performance optimizations using centralized resource hints
@@ -69,6 +70,9 @@ app.use(i18n)
 app.config.globalProperties.$head = head
 app.provide('usehead', head)
 
+// Repository identity for every component that links to GitHub
+app.provide(REPOSITORY_KEY, createRepositoryContext())
+
 // Error handling for better user experience
 app.config.errorHandler = (err, instance, info) => {
   console.error('Vue error:', err, info)
@@ -86,4 +90,12 @@ if (import.meta.env.PROD) {
   registerServiceWorker()
 }
 
+// Fetch the visitor's language before the first render so the page does not flash English
+try {
+  await loadLocaleMessages(initialLocale)
+} catch (error) {
+  console.error(`Failed to load ${initialLocale} messages, falling back to English:`, error)
+  i18n.global.locale.value = 'en'
+}
+
 app.mount('#app')
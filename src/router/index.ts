@@ -17,6 +17,18 @@ const router = createRouter({
       // which is lazy-loaded when the route is visited.
       component: () => import('../views/AboutView.vue'),
     },
+    {
+      path: '/changelog',
+      name: 'changelog',
+      component: () => import('../views/ChangelogView.vue'),
+    },
+    {
+      // Permalink to a single release, e.g. /changelog/v1.2.0
+      path: '/changelog/:version',
+      name: 'changelog-version',
+      component: () => import('../views/ChangelogView.vue'),
+      props: true,
+    },
   ],
 })
 
@@ -3,6 +3,10 @@ export interface ChangelogAsset {
   downloadUrl: string
   downloadCount: number
   size: number
+  // Recorded by the release sync from SHA256SUMS, per-file .sha256 or the API digest
+  sha256?: string
+  // Detached .sig/.asc signature published next to the asset
+  signatureUrl?: string
 }
 
 export interface ChangelogRelease {
@@ -20,10 +24,75 @@ export interface ChangelogData {
   releases: ChangelogRelease[]
 }
 
+// Section a release note item is listed under
+export type ReleaseNoteCategory = 'features' | 'bugFixes' | 'improvements' | 'breaking' | 'other'
+
+// `#12`, `owner/repo#12` or a GitHub pull/issue URL
+export interface ReleaseNoteReference {
+  kind: 'pull' | 'issue'
+  number: number
+  // Repository named in the reference or URL; null for a bare `#12`
+  repository: string | null
+  // The URL written in the notes, if any
+  url: string | null
+}
+
+export interface ReleaseNoteItem {
+  // Description without the commit prefix or trailing "by @user in #12" attribution
+  text: string
+  raw: string
+  category: ReleaseNoteCategory
+  // Conventional Commit type and scope, e.g. `feat(calendar)!:` -> 'feat', 'calendar'
+  commitType: string | null
+  scope: string | null
+  breaking: boolean
+  references: ReleaseNoteReference[]
+  // GitHub handles without the "@"
+  authors: string[]
+  children: ReleaseNoteItem[]
+}
+
+export interface ReleaseNoteSection {
+  // null for content before the first heading
+  heading: string | null
+  level: number
+  // null when items are categorized individually, e.g. GitHub's "What's Changed"
+  category: ReleaseNoteCategory | null
+  items: ReleaseNoteItem[]
+  paragraphs: string[]
+}
+
+// Markdown release notes parsed into a tree
+export interface ReleaseNotesDocument {
+  sections: ReleaseNoteSection[]
+  // Top-level items of every section, grouped by category
+  categories: Record<ReleaseNoteCategory, ReleaseNoteItem[]>
+  contributors: string[]
+  newContributors: string[]
+  fullChangelogUrl: string | null
+}
+
 export interface ParsedReleaseNotes {
   features: string[]
   bugFixes: string[]
   improvements: string[]
   breaking: string[]
   other: string[]
+  // Structured notes the lists above are flattened from
+  document: ReleaseNotesDocument
+}
+
+// The items one release contributes to an upgrade path
+export interface UpgradeNotes {
+  version: string
+  items: ReleaseNoteItem[]
+}
+
+// Everything that changed between two versions
+export interface UpgradePath {
+  from: string
+  to: string
+  // Releases after `from` up to and including `to`, oldest first
+  releases: ChangelogRelease[]
+  categories: Record<ReleaseNoteCategory, UpgradeNotes[]>
 }
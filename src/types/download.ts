@@ -0,0 +1,91 @@
+// Platform a release asset is built for; `other` covers checksums, sources and the like
+export type DownloadPlatform = 'windows' | 'macos' | 'linux' | 'other'
+
+// Platforms with an installer
+export type InstallerPlatform = Exclude<DownloadPlatform, 'other'>
+
+export type DownloadArchitecture = 'x64' | 'arm64' | 'universal'
+
+export type PackageFormat = 'exe' | 'msi' | 'dmg' | 'deb' | 'rpm' | 'AppImage' | 'tar.gz'
+
+// File name patterns used to tell release assets apart
+export interface AssetPatterns {
+  platforms: Record<InstallerPlatform, RegExp>
+  // Checked in order, so list the most specific architectures first
+  architectures: Record<DownloadArchitecture, RegExp>
+  // Checked in order, so `tar.gz` must not be shadowed by a looser pattern
+  formats: Record<PackageFormat, RegExp>
+  // Formats to offer per platform, most recommended first
+  preferredFormats: Record<InstallerPlatform, readonly PackageFormat[]>
+  // Architecture assumed when a file name does not mention one
+  defaultArchitectures: Record<InstallerPlatform, DownloadArchitecture>
+  // Assets never offered as downloads (checksums, signatures, update manifests)
+  ignore: RegExp
+}
+
+// File name patterns for the files that let users verify a download
+export interface VerificationPatterns {
+  // SHA256SUMS-style manifests and per-file `.sha256` files
+  checksums: RegExp
+  // Detached signatures of an installer or of the checksum manifest
+  signatures: RegExp
+}
+
+// A release asset, whichever source it came from
+export interface ReleaseAsset {
+  name: string
+  url: string
+  size: number
+  downloadCount: number
+  // Lowercase hex SHA-256, when the release publishes one
+  sha256?: string
+  signatureUrl?: string
+}
+
+export interface ResolvedAsset extends ReleaseAsset {
+  platform: InstallerPlatform
+  architecture: DownloadArchitecture
+  format: PackageFormat
+}
+
+export interface DownloadTarget {
+  platform: InstallerPlatform
+  // Unknown when the browser does not tell
+  architecture?: DownloadArchitecture
+}
+
+export interface ResolvedDownloads {
+  // The asset to offer first, null when the release has nothing for the platform
+  best: ResolvedAsset | null
+  // Every other asset for the platform, best match first
+  alternatives: ResolvedAsset[]
+}
+
+export type PackageChannelId = 'winget' | 'scoop' | 'homebrew' | 'apt' | 'rpm' | 'flatpak' | 'aur'
+
+export interface PackageChannelCommands {
+  install: string
+  upgrade: string
+  uninstall: string
+}
+
+// What the commands of a channel are generated for
+export interface PackageChannelContext {
+  // Release version without the leading "v"
+  version: string
+  // Release file to install; always set for channels with a `format`
+  asset: ResolvedAsset | null
+}
+
+export interface PackageChannel {
+  id: PackageChannelId
+  name: string
+  platform: InstallerPlatform
+  // First EchoNote release published to the channel
+  minimumVersion: string
+  // Channels without a package repository install this release file
+  format?: PackageFormat
+  // False when the channel always installs the newest version it has
+  pinsVersion: boolean
+  commands: (context: PackageChannelContext) => PackageChannelCommands
+}
@@ -1,23 +1,26 @@
 // GitHub API types
 
+export interface GitHubLicense {
+  key: string
+  name: string
+  spdx_id: string
+}
+
 export interface GitHubRepository {
   id: number
   name: string
   full_name: string
-  description: string
+  description: string | null
   html_url: string
   stargazers_count: number
   forks_count: number
   watchers_count: number
-  language: string
+  open_issues_count: number
+  language: string | null
   created_at: string
   updated_at: string
   pushed_at: string
-  license: {
-    key: string
-    name: string
-    spdx_id: string
-  }
+  license: GitHubLicense | null
 }
 
 export interface GitHubRelease {
@@ -25,6 +28,8 @@ export interface GitHubRelease {
   tag_name: string
   name: string
   body: string
+  draft: boolean
+  prerelease: boolean
   published_at: string
   html_url: string
   assets: GitHubAsset[]
@@ -33,6 +38,7 @@ export interface GitHubRelease {
 export interface GitHubAsset {
   id: number
   name: string
+  size: number
   download_count: number
   browser_download_url: string
 }
@@ -51,5 +57,64 @@ export interface GitHubStats {
   contributors: number
   releases: number
   lastUpdate: string
-  version: string
+  // Latest release tag, or null before the first release
+  version: string | null
+}
+
+// Stats combined across repositories. The contributor count is null when it
+// cannot be de-duplicated, i.e. some repository's contributor list is missing
+export interface AggregatedGitHubStats extends Omit<GitHubStats, 'contributors'> {
+  contributors: number | null
+}
+
+// Where a value shown on the page came from
+export type GitHubDataSource = 'live' | 'cache' | 'snapshot' | 'build'
+
+// Outcome of loading GitHub data - consumers can label anything that is not live
+export type GitHubResult<T> =
+  | { status: 'ok'; data: T; source: GitHubDataSource; asOf: string }
+  | { status: 'stale'; data: T; source: GitHubDataSource; asOf: string; error: string | null }
+  | { status: 'error'; data: null; error: string }
+
+// Cached response with the validators needed for conditional requests
+export interface GitHubCacheEntry<T> {
+  data: T
+  timestamp: number
+  etag?: string
+  lastModified?: string
+  // URL of the next page from the `Link` header, for paginated endpoints
+  next?: string
+}
+
+// Build-time snapshot of everything the site shows about a repository
+export interface GitHubRepositorySnapshot {
+  repo: GitHubRepository
+  stats: GitHubStats
+  contributors: GitHubContributor[]
+  releases: GitHubRelease[]
+  downloads: GitHubDownloadCounts
+}
+
+export interface GitHubDownloadCounts {
+  total: number
+  byRelease: Record<string, number>
+}
+
+export interface GitHubSnapshot {
+  // null until scripts/generate-github-snapshot.js has run
+  generatedAt: string | null
+  repositories: Record<string, GitHubRepositorySnapshot>
+}
+
+// Cumulative asset download counts recorded by one snapshot run
+export interface DownloadHistorySample {
+  // Day of the run, YYYY-MM-DD
+  date: string
+  // Download count per release tag, then per asset name
+  releases: Record<string, Record<string, number>>
+}
+
+// Dated download counts kept across snapshot runs, oldest sample first
+export interface DownloadHistory {
+  repositories: Record<string, DownloadHistorySample[]>
 }
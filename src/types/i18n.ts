@@ -33,3 +33,46 @@ export const SUPPORTED_LANGUAGES: Language[] = [
 ]
 
 export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number]['code']
+
+// How one locale renders a glossary term
+export interface GlossaryEntry {
+  term: string
+  // Inflected forms that also count as the term, e.g. plurals
+  forms?: string[]
+  // Variants translators must not use, reported with `term` as the replacement
+  forbidden?: string[]
+}
+
+export interface GlossaryTerm {
+  id: string
+  // Whether the term must keep its exact capitalisation, as product names do
+  caseSensitive?: boolean
+  // Keyed by locale; the English entry identifies the term in source strings
+  translations: Record<string, GlossaryEntry>
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[]
+}
+
+// One message in an XLIFF or PO file, identified by its key path
+export interface TranslationUnit {
+  id: string
+  source: string
+  target?: string
+  notes: string[]
+  needsReview: boolean
+}
+
+// What importing a translated file changes in a locale
+export interface TranslationImportDiff {
+  added: string[]
+  changed: { id: string; from: string; to: string }[]
+  // Translations of keys English no longer has, dropped from the locale
+  removed: string[]
+  // Ids the reference locale no longer has
+  unknown: string[]
+  // Units translated from a different English text than the current one
+  staleSource: string[]
+  needsReview: string[]
+}
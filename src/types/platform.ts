@@ -0,0 +1,83 @@
+import type { InstallerPlatform } from '@/types/download'
+
+// CPU architecture of the visitor's system; `x86` and `arm` are the 32-bit variants
+export type SystemArchitecture = 'x64' | 'arm64' | 'x86' | 'arm'
+
+export type LinuxDistro = 'ubuntu' | 'debian' | 'fedora' | 'mint' | 'opensuse' | 'centos' | 'arch'
+
+// Phones and tablets have no installer; `unknown` when the user agent names no system
+export type SystemPlatform = InstallerPlatform | 'android' | 'ios' | 'unknown'
+
+export interface SystemInfo {
+  platform: SystemPlatform
+  // Unknown when neither Client Hints nor the user agent tell
+  architecture?: SystemArchitecture
+  // Marketing version: "10" or "11" on Windows, "14.2" on macOS, the distro release on Linux
+  osVersion?: string
+  distro?: LinuxDistro
+  // Client Hints are exact; the user agent string is frozen in most browsers
+  source: 'client-hints' | 'user-agent'
+}
+
+// High entropy values from `navigator.userAgentData.getHighEntropyValues()`
+export interface ClientHints {
+  platform?: string
+  platformVersion?: string
+  architecture?: string
+  bitness?: string
+}
+
+// Operating systems an installer runs on
+export interface OsRequirement {
+  minimumVersion?: string
+  // Linux: minimum release per distribution
+  distroVersions?: Partial<Record<LinuxDistro, string>>
+  architectures: readonly SystemArchitecture[]
+}
+
+// Minimum system for one platform, with numeric minimums the browser can check
+export interface PlatformRequirements {
+  os: OsRequirement
+  memory: { minimumGB: number; recommendedGB: number }
+  storage: { minimumMB: number }
+  // Logical cores, as `navigator.hardwareConcurrency` counts them
+  cpu: { minimumCores: number; recommendedCores: number }
+  microphone: boolean
+  // Linux sound systems the microphone is used through
+  audioBackends?: string
+  // Anything else, shown as-is
+  additional?: string
+}
+
+export type RequirementIssue =
+  | { kind: 'osVersion'; system: string; requirement: string }
+  | { kind: 'architecture'; architecture: SystemArchitecture; supported: SystemArchitecture[] }
+
+export type RequirementId = 'os' | 'architecture' | 'memory' | 'cpu' | 'storage' | 'microphone'
+
+// `unknown` when the browser cannot tell, or the visitor has not allowed it to
+export type RequirementStatus = 'pass' | 'warn' | 'unknown'
+
+export interface RequirementCheck {
+  id: RequirementId
+  status: RequirementStatus
+  // What was detected: a system name, GB of memory, cores, MB of storage or microphones
+  detected: string | number | null
+}
+
+// A system EchoNote has an installer for
+export interface DesktopSystemInfo extends SystemInfo {
+  platform: InstallerPlatform
+}
+
+// What the browser reports about the device; absent where an API is missing
+export interface DeviceCapabilities {
+  system?: SystemInfo
+  // `navigator.deviceMemory`: rounded down to a power of two and capped, usually at 8
+  memoryGB?: number
+  cores?: number
+  // Storage quota the browser grants the site, a rough guide to free disk space
+  storageQuotaMB?: number
+  // Only known once the visitor allows microphone access
+  microphones?: number
+}
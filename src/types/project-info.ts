@@ -19,33 +19,3 @@ export interface ProjectInfo {
   lastSync: string
   error?: string
 }
-
-export interface GitHubRelease {
-  tag_name: string
-  name: string
-  body: string
-  published_at: string
-  html_url: string
-  assets: Array<{
-    name: string
-    download_count: number
-    browser_download_url: string
-  }>
-}
-
-export interface GitHubRepository {
-  name: string
-  full_name: string
-  description: string
-  stargazers_count: number
-  forks_count: number
-  watchers_count: number
-  open_issues_count: number
-  language: string
-  license: {
-    name: string
-    spdx_id: string
-  } | null
-  updated_at: string
-  created_at: string
-}
@@ -0,0 +1,135 @@
+/**
+ * Release asset resolver
+ * Matches the assets of an actual release to a platform, architecture and
+ * package format by file name, so download links follow whatever the release
+ * ships instead of hard-coded file names.
+ */
+
+import type { ChangelogAsset } from '@/types/changelog'
+import type {
+  AssetPatterns,
+  DownloadArchitecture,
+  DownloadPlatform,
+  DownloadTarget,
+  InstallerPlatform,
+  PackageFormat,
+  ReleaseAsset,
+  ResolvedAsset,
+  ResolvedDownloads,
+} from '@/types/download'
+import type { GitHubAsset } from '@/types/github'
+
+// Formats that only exist on one platform, for file names that do not say which
+const FORMAT_PLATFORMS: Partial<Record<PackageFormat, InstallerPlatform>> = {
+  exe: 'windows',
+  msi: 'windows',
+  dmg: 'macos',
+  deb: 'linux',
+  rpm: 'linux',
+  AppImage: 'linux',
+}
+
+const firstMatch = <K extends string>(patterns: Record<K, RegExp>, name: string): K | null =>
+  (Object.keys(patterns) as K[]).find(key => patterns[key].test(name)) ?? null
+
+/**
+ * Normalize a changelog or GitHub API asset
+ */
+export const toReleaseAsset = (asset: ChangelogAsset | GitHubAsset): ReleaseAsset =>
+  'browser_download_url' in asset
+    ? {
+        name: asset.name,
+        url: asset.browser_download_url,
+        size: asset.size,
+        downloadCount: asset.download_count,
+      }
+    : {
+        name: asset.name,
+        url: asset.downloadUrl,
+        size: asset.size,
+        downloadCount: asset.downloadCount,
+        ...(asset.sha256 && { sha256: asset.sha256 }),
+        ...(asset.signatureUrl && { signatureUrl: asset.signatureUrl }),
+      }
+
+/**
+ * Platform an asset is built for, installer or not, for counting downloads.
+ * Checksums, signatures and files for no known platform are `other`.
+ */
+export const classifyAssetPlatform = (name: string, patterns: AssetPatterns): DownloadPlatform => {
+  if (patterns.ignore.test(name)) return 'other'
+  const format = firstMatch(patterns.formats, name)
+  return firstMatch(patterns.platforms, name) ?? (format && FORMAT_PLATFORMS[format]) ?? 'other'
+}
+
+/**
+ * Platform, architecture and format of an asset, or null when it is not an
+ * installer for a known platform
+ */
+export const describeAsset = (
+  asset: ReleaseAsset,
+  patterns: AssetPatterns
+): ResolvedAsset | null => {
+  if (patterns.ignore.test(asset.name)) return null
+
+  const format = firstMatch(patterns.formats, asset.name)
+  if (!format) return null
+
+  const platform = firstMatch(patterns.platforms, asset.name) ?? FORMAT_PLATFORMS[format]
+  if (!platform || !patterns.preferredFormats[platform].includes(format)) return null
+
+  const architecture =
+    firstMatch(patterns.architectures, asset.name) ?? patterns.defaultArchitectures[platform]
+
+  return { ...asset, platform, architecture, format }
+}
+
+/**
+ * Every installer in a release
+ */
+export const describeAssets = (assets: ReleaseAsset[], patterns: AssetPatterns): ResolvedAsset[] =>
+  assets.flatMap(asset => describeAsset(asset, patterns) ?? [])
+
+// Lower is better: the exact architecture, then one that runs everywhere, then the rest.
+// Without a known architecture, a universal build is the safest pick.
+const architectureRank = (
+  architecture: DownloadArchitecture,
+  wanted: DownloadArchitecture | undefined
+): number => {
+  const order: DownloadArchitecture[] = wanted
+    ? [wanted, 'universal', ...(['x64', 'arm64'] as const).filter(item => item !== wanted)]
+    : ['universal', 'x64', 'arm64']
+  return order.indexOf(architecture)
+}
+
+/**
+ * Pick the best installer of a release for a platform, with the other installers
+ * for that platform as alternatives. A build for another architecture is never
+ * the best pick, only an alternative.
+ */
+export const resolveDownloads = (
+  assets: ReleaseAsset[],
+  target: DownloadTarget,
+  patterns: AssetPatterns
+): ResolvedDownloads => {
+  const formats = patterns.preferredFormats[target.platform]
+  const ranked = describeAssets(assets, patterns)
+    .filter(asset => asset.platform === target.platform)
+    .sort(
+      (a, b) =>
+        architectureRank(a.architecture, target.architecture) -
+          architectureRank(b.architecture, target.architecture) ||
+        formats.indexOf(a.format) - formats.indexOf(b.format)
+    )
+
+  const [first] = ranked
+  const compatible =
+    first &&
+    (!target.architecture ||
+      first.architecture === target.architecture ||
+      first.architecture === 'universal')
+
+  return compatible
+    ? { best: first, alternatives: ranked.slice(1) }
+    : { best: null, alternatives: ranked }
+}
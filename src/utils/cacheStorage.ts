@@ -0,0 +1,273 @@
+/**
+ * Pluggable cache storage for GitHub data
+ * Backends (memory, localStorage, IndexedDB) share one async interface so callers
+ * can pick the right storage per data set - e.g. IndexedDB for large release lists.
+ */
+
+import type { GitHubCacheEntry } from '@/types/github'
+
+export type CacheBackendType = 'memory' | 'localStorage' | 'indexedDB'
+
+export interface CacheBackend {
+  readonly type: CacheBackendType
+  get<T>(key: string): Promise<GitHubCacheEntry<T> | null>
+  set<T>(key: string, entry: GitHubCacheEntry<T>): Promise<void>
+  remove(key: string): Promise<void>
+  keys(): Promise<string[]>
+}
+
+export interface CacheStoreOptions {
+  backend: CacheBackend
+  // Maximum number of entries kept before the oldest are evicted
+  maxEntries?: number
+  // Entries older than this are dropped instead of being served as stale data
+  maxStaleAge?: number
+}
+
+/**
+ * Memory backend, used in Node scripts and when no persistent storage exists
+ */
+export const createMemoryBackend = (): CacheBackend => {
+  const entries = new Map<string, GitHubCacheEntry<unknown>>()
+
+  return {
+    type: 'memory',
+    get: async <T>(key: string) => (entries.get(key) as GitHubCacheEntry<T> | undefined) ?? null,
+    set: async (key, entry) => {
+      entries.set(key, entry)
+    },
+    remove: async key => {
+      entries.delete(key)
+    },
+    keys: async () => [...entries.keys()],
+  }
+}
+
+/**
+ * localStorage backend - only keys starting with `prefix` belong to this cache
+ */
+export const createLocalStorageBackend = (prefix = ''): CacheBackend => ({
+  type: 'localStorage',
+  get: async <T>(key: string) => {
+    try {
+      const cached = localStorage.getItem(key)
+      return cached ? (JSON.parse(cached) as GitHubCacheEntry<T>) : null
+    } catch (error) {
+      console.warn(`Failed to read cached data for ${key}:`, error)
+      return null
+    }
+  },
+  set: async (key, entry) => {
+    // Let quota errors propagate so the store can evict and retry
+    localStorage.setItem(key, JSON.stringify(entry))
+  },
+  remove: async key => {
+    try {
+      localStorage.removeItem(key)
+    } catch (error) {
+      console.warn(`Failed to clear cached data for ${key}:`, error)
+    }
+  },
+  keys: async () => {
+    const keys: string[] = []
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (key?.startsWith(prefix)) keys.push(key)
+      }
+    } catch (error) {
+      console.warn('Failed to list cached data:', error)
+    }
+    return keys
+  },
+})
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * IndexedDB backend for large payloads, falling back to another backend when
+ * IndexedDB is unavailable (private browsing, older browsers, tests)
+ */
+export const createIndexedDBBackend = (
+  fallback: CacheBackend,
+  dbName = 'echonote-cache',
+  storeName = 'github'
+): CacheBackend => {
+  let dbPromise: Promise<IDBDatabase | null> | null = null
+
+  const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+      dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null)
+          return
+        }
+
+        try {
+          const request = indexedDB.open(dbName, 1)
+          request.onupgradeneeded = () => {
+            request.result.createObjectStore(storeName)
+          }
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => {
+            console.warn('Failed to open IndexedDB cache:', request.error)
+            resolve(null)
+          }
+        } catch (error) {
+          console.warn('Failed to open IndexedDB cache:', error)
+          resolve(null)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    fallbackOperation: () => Promise<T>
+  ): Promise<T> => {
+    const db = await openDatabase()
+    if (!db) return fallbackOperation()
+    return promisifyRequest(operation(db.transaction(storeName, mode).objectStore(storeName)))
+  }
+
+  return {
+    type: 'indexedDB',
+    get: async <T>(key: string) => {
+      try {
+        const entry = await withStore<GitHubCacheEntry<T> | undefined>(
+          'readonly',
+          store => store.get(key),
+          async () => (await fallback.get<T>(key)) ?? undefined
+        )
+        return entry ?? null
+      } catch (error) {
+        console.warn(`Failed to read cached data for ${key}:`, error)
+        return null
+      }
+    },
+    set: async (key, entry) => {
+      await withStore<IDBValidKey>(
+        'readwrite',
+        store => store.put(entry, key),
+        async () => {
+          await fallback.set(key, entry)
+          return key
+        }
+      )
+    },
+    remove: async key => {
+      try {
+        await withStore<undefined>(
+          'readwrite',
+          store => store.delete(key),
+          () => fallback.remove(key).then(() => undefined)
+        )
+      } catch (error) {
+        console.warn(`Failed to clear cached data for ${key}:`, error)
+      }
+    },
+    keys: async () => {
+      try {
+        const keys = await withStore<IDBValidKey[]>(
+          'readonly',
+          store => store.getAllKeys(),
+          () => fallback.keys()
+        )
+        return keys.map(String)
+      } catch (error) {
+        console.warn('Failed to list cached data:', error)
+        return []
+      }
+    },
+  }
+}
+
+/**
+ * Cache Store Class
+ * Wraps a backend with expiry of very old entries and size-based eviction:
+ * once `maxEntries` is exceeded, the least recently written entries are removed.
+ */
+export class CacheStore {
+  readonly backend: CacheBackend
+  private readonly maxEntries: number
+  private readonly maxStaleAge: number
+
+  constructor(options: CacheStoreOptions) {
+    this.backend = options.backend
+    this.maxEntries = options.maxEntries ?? Infinity
+    this.maxStaleAge = options.maxStaleAge ?? Infinity
+  }
+
+  async get<T>(key: string): Promise<GitHubCacheEntry<T> | null> {
+    const entry = await this.backend.get<T>(key)
+    if (!entry) return null
+
+    if (Date.now() - entry.timestamp > this.maxStaleAge) {
+      await this.backend.remove(key)
+      return null
+    }
+    return entry
+  }
+
+  async set<T>(key: string, entry: GitHubCacheEntry<T>): Promise<void> {
+    try {
+      await this.backend.set(key, entry)
+    } catch (error) {
+      // Storage is full - halve the cache, or the configured limit, and try once more
+      const size = Math.min(this.maxEntries, (await this.backend.keys()).length)
+      await this.evict(Math.floor(size / 2), key)
+      try {
+        await this.backend.set(key, entry)
+      } catch {
+        console.warn(`Failed to cache data for ${key}:`, error)
+        return
+      }
+    }
+
+    await this.evict(this.maxEntries, key)
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.backend.remove(key)
+  }
+
+  keys(): Promise<string[]> {
+    return this.backend.keys()
+  }
+
+  /**
+   * Remove the oldest entries until at most `limit` remain, never evicting `keep`
+   */
+  private async evict(limit: number, keep: string): Promise<void> {
+    const keys = await this.backend.keys()
+    if (keys.length <= limit) return
+
+    const entries = await Promise.all(
+      keys
+        .filter(key => key !== keep)
+        .map(async key => ({ key, timestamp: (await this.backend.get(key))?.timestamp ?? 0 }))
+    )
+
+    entries.sort((a, b) => a.timestamp - b.timestamp)
+    const excess = keys.length - limit
+    await Promise.all(entries.slice(0, excess).map(({ key }) => this.backend.remove(key)))
+  }
+}
+
+/**
+ * Create a backend by type, degrading to memory when storage is unavailable
+ */
+export const createCacheBackend = (type: CacheBackendType, prefix = ''): CacheBackend => {
+  if (type === 'memory' || typeof window === 'undefined') {
+    return createMemoryBackend()
+  }
+
+  const localBackend = createLocalStorageBackend(prefix)
+  return type === 'indexedDB' ? createIndexedDBBackend(localBackend) : localBackend
+}
@@ -13,6 +13,16 @@ export const formatNumber = (num: number): string => {
   return num.toString()
 }
 
+/**
+ * 图表坐标轴上限：不小于 value 的 1、2、5 × 10^n
+ */
+export const niceCeiling = (value: number): number => {
+  if (value <= 0) return 1
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const step = [1, 2, 5, 10].find(step => value <= step * magnitude) ?? 10
+  return step * magnitude
+}
+
 /**
  * 格式化日期
  */
@@ -29,16 +39,6 @@ export const formatDate = (dateString: string): string => {
   }
 }
 
-/**
- * 检测用户操作系统
- */
-export const detectOS = (): 'windows' | 'macos' | 'linux' => {
-  const userAgent = navigator.userAgent.toLowerCase()
-  if (userAgent.includes('mac')) return 'macos'
-  if (userAgent.includes('linux')) return 'linux'
-  return 'windows'
-}
-
 /**
  * 获取平台图标
  */
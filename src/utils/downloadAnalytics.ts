@@ -0,0 +1,167 @@
+/**
+ * Download analytics
+ * Turns the dated download counts kept by the snapshot generator into adoption
+ * curves per release, platform share over time and week-over-week deltas.
+ * Counts from GitHub are cumulative, so every figure here is derived from the
+ * difference between samples.
+ */
+
+import type { AssetPatterns, DownloadPlatform } from '@/types/download'
+import type { DownloadHistory, DownloadHistorySample } from '@/types/github'
+import { classifyAssetPlatform } from '@/utils/assetResolver'
+
+export const DOWNLOAD_PLATFORMS: DownloadPlatform[] = ['windows', 'macos', 'linux', 'other']
+
+export interface DownloadPoint {
+  date: string
+  downloads: number
+}
+
+// Cumulative downloads of one release, from the first sample it appears in
+export interface AdoptionCurve {
+  release: string
+  points: DownloadPoint[]
+}
+
+export interface PlatformShare {
+  date: string
+  total: number
+  downloads: Record<DownloadPlatform, number>
+  // Fraction of `total` per platform, 0 when there are no downloads yet
+  shares: Record<DownloadPlatform, number>
+}
+
+export interface WeeklyDownloads {
+  // Monday of the week, YYYY-MM-DD
+  week: string
+  // Cumulative total at the last sample of the week, null for a week without samples
+  total: number | null
+  // Downloads gained since the previous week's last sample, null when that week
+  // has no samples and the gain cannot be pinned to one week
+  downloads: number | null
+  // Change in `downloads` against the previous week, null when either is unknown
+  delta: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+const sum = (counts: Record<string, number>): number =>
+  Object.values(counts).reduce((total, count) => total + count, 0)
+
+const sampleTotal = (sample: DownloadHistorySample): number =>
+  Object.values(sample.releases).reduce((total, assets) => total + sum(assets), 0)
+
+/**
+ * Combine the histories of several repositories into one series. Counts are
+ * cumulative, so a repository without a sample on a given day contributes its
+ * latest earlier sample. With more than one repository, releases are keyed as
+ * `owner/repo tag` to keep tags from different repositories apart.
+ */
+export const mergeDownloadHistories = (
+  history: DownloadHistory,
+  repositories: string[]
+): DownloadHistorySample[] => {
+  const series = repositories.map(repository => history.repositories[repository] ?? [])
+  const dates = [...new Set(series.flat().map(sample => sample.date))].sort()
+  const qualify = repositories.length > 1
+
+  return dates.map(date => {
+    const releases: DownloadHistorySample['releases'] = {}
+    series.forEach((samples, index) => {
+      const latest = samples.filter(sample => sample.date <= date).pop()
+      for (const [tag, assets] of Object.entries(latest?.releases ?? {})) {
+        releases[qualify ? `${repositories[index]} ${tag}` : tag] = assets
+      }
+    })
+    return { date, releases }
+  })
+}
+
+const latestDownloads = (curve: AdoptionCurve): number =>
+  curve.points[curve.points.length - 1]?.downloads ?? 0
+
+/**
+ * Cumulative downloads per release over time, most downloaded release first
+ */
+export const getAdoptionCurves = (samples: DownloadHistorySample[]): AdoptionCurve[] => {
+  const curves = new Map<string, DownloadPoint[]>()
+  for (const sample of samples) {
+    for (const [release, assets] of Object.entries(sample.releases)) {
+      const points = curves.get(release) ?? []
+      points.push({ date: sample.date, downloads: sum(assets) })
+      curves.set(release, points)
+    }
+  }
+
+  return [...curves.entries()]
+    .map(([release, points]) => ({ release, points }))
+    .sort((a, b) => latestDownloads(b) - latestDownloads(a))
+}
+
+/**
+ * Cumulative downloads split by platform at every sample, using the same asset
+ * patterns as the download links
+ */
+export const getPlatformShareTrend = (
+  samples: DownloadHistorySample[],
+  patterns: AssetPatterns
+): PlatformShare[] =>
+  samples.map(sample => {
+    const downloads: Record<DownloadPlatform, number> = { windows: 0, macos: 0, linux: 0, other: 0 }
+    for (const assets of Object.values(sample.releases)) {
+      for (const [name, count] of Object.entries(assets)) {
+        downloads[classifyAssetPlatform(name, patterns)] += count
+      }
+    }
+
+    const total = sum(downloads)
+    const shares = Object.fromEntries(
+      DOWNLOAD_PLATFORMS.map(platform => [platform, total > 0 ? downloads[platform] / total : 0])
+    ) as Record<DownloadPlatform, number>
+
+    return { date: sample.date, total, downloads, shares }
+  })
+
+const mondayOf = (date: string): string => {
+  const time = Date.parse(date)
+  // getUTCDay() is 0 on Sunday; weeks start on Monday
+  const offset = (new Date(time).getUTCDay() + 6) % 7
+  return new Date(time - offset * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Downloads gained per week and how that compares with the week before. The
+ * first week only sets the baseline, since downloads before it are unknown.
+ * Weeks without samples stay in the series as gaps rather than merging the
+ * weeks either side of them.
+ */
+export const getWeeklyDownloads = (samples: DownloadHistorySample[]): WeeklyDownloads[] => {
+  const totals = new Map<string, number>()
+  for (const sample of samples) {
+    // Samples are oldest first, so the last one of each week wins
+    totals.set(mondayOf(sample.date), sampleTotal(sample))
+  }
+
+  const weeks = [...totals.keys()].sort()
+  const first = weeks[0]
+  const last = weeks[weeks.length - 1]
+  if (!first || !last) return []
+
+  const result: WeeklyDownloads[] = []
+  let previous = totals.get(first) ?? null
+  for (let time = Date.parse(first) + WEEK_MS; time <= Date.parse(last); time += WEEK_MS) {
+    const week = new Date(time).toISOString().slice(0, 10)
+    const total = totals.get(week) ?? null
+    const downloads = total !== null && previous !== null ? total - previous : null
+    const before = result[result.length - 1]?.downloads ?? null
+    result.push({
+      week,
+      total,
+      downloads,
+      delta: downloads !== null && before !== null ? downloads - before : null,
+    })
+    previous = total
+  }
+  return result
+}
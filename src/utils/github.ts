@@ -1,111 +1,392 @@
-import type { GitHubRepository, GitHubRelease } from '@/types/project-info'
-import { APP_CONFIG } from '@/config/app'
+/**
+ * Unified GitHub API client
+ * Shared by the browser composables and the Node sync scripts, so it must not
+ * depend on Vue or on `import.meta.env` - configuration is passed in explicitly.
+ */
 
-const GITHUB_API_BASE = APP_CONFIG.github.apiBase
-const MAIN_REPO = APP_CONFIG.github.fullRepo
+import type {
+  AggregatedGitHubStats,
+  GitHubCacheEntry,
+  GitHubContributor,
+  GitHubRelease,
+  GitHubRepository,
+  GitHubStats,
+} from '@/types/github'
+import type { ProjectStats } from '@/types/project-info'
+import { CacheStore, createMemoryBackend } from '@/utils/cacheStorage'
+import { GitHubRateLimitTracker, type GitHubRequestPriority } from '@/utils/githubRateLimit'
 
-export class GitHubAPI {
-  private static async fetchWithRetry(url: string, retries = 3): Promise<Response> {
-    for (let i = 0; i < retries; i++) {
-      try {
-        const response = await fetch(url, {
-          headers: {
-            Accept: 'application/vnd.github.v3+json',
-            'User-Agent': 'EchoNote-Introduction-Page',
-          },
-        })
-
-        if (response.ok) {
-          return response
-        }
+export const GITHUB_API_BASE = 'https://api.github.com'
 
-        if (response.status === 403) {
-          // Rate limit exceeded
-          const resetTime = response.headers.get('X-RateLimit-Reset')
-          if (resetTime) {
-            const resetDate = new Date(parseInt(resetTime) * 1000)
-            const waitTime = resetDate.getTime() - Date.now()
-            if (waitTime > 0 && waitTime < 60000) {
-              // Wait max 1 minute
-              await new Promise(resolve => setTimeout(resolve, waitTime))
-              continue
-            }
-          }
-        }
+// Storage for cached responses, keyed by cache key
+export interface GitHubCacheStore {
+  get<T>(key: string): Promise<GitHubCacheEntry<T> | null>
+  set<T>(key: string, entry: GitHubCacheEntry<T>): Promise<void>
+  remove(key: string): Promise<void>
+  keys(): Promise<string[]>
+}
 
-        if (i === retries - 1) {
-          throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`)
-        }
-      } catch (error) {
-        if (i === retries - 1) {
-          throw error
-        }
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1))) // Exponential backoff
+// Pages after the first of a list endpoint are cached under their own keys
+const PAGE_KEY_SEPARATOR = '-page-'
+const pageCacheKey = (baseKey: string, page: number): string =>
+  page === 1 ? baseKey : `${baseKey}${PAGE_KEY_SEPARATOR}${page}`
+
+export interface GitHubClientOptions {
+  apiBase?: string
+  token?: string
+  userAgent?: string
+  maxRetries?: number
+  retryDelay?: number
+  maxRateLimitWait?: number
+  cacheTimeout?: number
+  cache?: GitHubCacheStore
+  staleWhileRevalidate?: boolean
+  perPage?: number
+  maxPages?: number
+  fetch?: typeof fetch
+  // Shared budget tracker, e.g. to surface the remaining quota in the UI
+  rateLimit?: GitHubRateLimitTracker
+  onRetry?: (attempt: number, error: unknown) => void
+}
+
+export interface GitHubRequestOptions<T = unknown> {
+  cacheKey?: string
+  // Override the client cache, e.g. to keep large payloads in IndexedDB
+  cache?: GitHubCacheStore
+  // Serve expired entries immediately and refresh them in the background
+  staleWhileRevalidate?: boolean
+  // Normal requests are held once the remaining budget drops below the threshold
+  priority?: GitHubRequestPriority
+  onRevalidate?: (data: T) => void
+}
+
+export interface GitHubPaginateOptions<T> extends GitHubRequestOptions<T[]> {
+  perPage?: number
+  // Stop after this many pages even if GitHub reports more
+  maxPages?: number
+  // Called as each page arrives, with the items accumulated so far
+  onPage?: (items: T[], page: number, accumulated: T[]) => void
+}
+
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly url: string
+  ) {
+    super(message)
+    this.name = 'GitHubApiError'
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(
+    url: string,
+    // Epoch milliseconds at which requests may resume, when GitHub reported it
+    public readonly resetAt: number | null,
+    status = 429
+  ) {
+    super('GitHub API rate limit exceeded', status, url)
+    this.name = 'GitHubRateLimitError'
+  }
+}
+
+/**
+ * Parse an RFC 8288 `Link` header into a map of relation -> URL
+ */
+export const parseLinkHeader = (header: string | null): Record<string, string> => {
+  const links: Record<string, string> = {}
+  if (!header) return links
+
+  for (const part of header.split(',')) {
+    const [, url, rels] = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/) ?? []
+    if (url && rels) {
+      for (const rel of rels.split(/\s+/)) {
+        links[rel] = url
       }
     }
+  }
+  return links
+}
+
+interface ResolvedEntry<T> {
+  entry: GitHubCacheEntry<T>
+  // The entry expired and is being revalidated in the background
+  stale: boolean
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * GitHub Client Class
+ * Retries transient failures, waits out short rate-limit windows and revalidates
+ * expired cache entries with `If-None-Match`/`If-Modified-Since`, so unchanged
+ * resources come back as 304s that do not count against the anonymous quota.
+ */
+export class GitHubClient {
+  readonly apiBase: string
+  readonly cache: GitHubCacheStore
+  readonly rateLimit: GitHubRateLimitTracker
+  private readonly inFlight = new Map<string, Promise<unknown>>()
+  private readonly options: Required<
+    Pick<
+      GitHubClientOptions,
+      'maxRetries' | 'retryDelay' | 'maxRateLimitWait' | 'cacheTimeout' | 'perPage' | 'maxPages'
+    >
+  > &
+    GitHubClientOptions
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.options = {
+      maxRetries: 3,
+      retryDelay: 1000,
+      maxRateLimitWait: 60 * 1000,
+      cacheTimeout: 10 * 60 * 1000,
+      perPage: 30,
+      maxPages: 10,
+      ...options,
+    }
+    this.apiBase = options.apiBase ?? GITHUB_API_BASE
+    this.cache = options.cache ?? new CacheStore({ backend: createMemoryBackend() })
+    this.rateLimit = options.rateLimit ?? new GitHubRateLimitTracker()
+  }
 
-    throw new Error('Failed to fetch after retries')
+  /**
+   * Build the API URL for a repository, optionally with a sub-path
+   */
+  repoUrl(repository: string, path = ''): string {
+    return `${this.apiBase}/repos/${repository}${path}`
   }
 
-  static async getRepository(): Promise<GitHubRepository> {
-    const response = await this.fetchWithRetry(`${GITHUB_API_BASE}/repos/${MAIN_REPO}`)
-    return response.json()
+  /**
+   * Fetch JSON from the API, serving fresh cache hits without a network call
+   */
+  async request<T>(url: string, options: GitHubRequestOptions<T> = {}): Promise<T> {
+    const { entry } = await this.resolve(url, options)
+    return entry.data
   }
 
-  static async getLatestRelease(): Promise<GitHubRelease> {
-    const response = await this.fetchWithRetry(
-      `${GITHUB_API_BASE}/repos/${MAIN_REPO}/releases/latest`
+  /**
+   * Fetch every page of a list endpoint by following `Link: rel="next"` headers.
+   * Each page is cached on its own so unchanged pages revalidate as 304s.
+   */
+  async requestAll<T>(url: string, options: GitHubPaginateOptions<T> = {}): Promise<T[]> {
+    const { onPage, onRevalidate, ...requestOptions } = options
+    const maxPages = options.maxPages ?? this.options.maxPages
+    const baseKey = options.cacheKey ?? url
+    const items: T[] = []
+    let servedStale = false
+    let nextUrl: string | undefined = url
+
+    for (let page = 1; nextUrl && page <= maxPages; page++) {
+      const { entry, stale }: ResolvedEntry<T[]> = await this.resolve<T[]>(nextUrl, {
+        ...requestOptions,
+        cacheKey: pageCacheKey(baseKey, page),
+      })
+      const pageItems = Array.isArray(entry.data) ? entry.data : []
+
+      items.push(...pageItems)
+      servedStale ||= stale
+      onPage?.(pageItems, page, items)
+      nextUrl = entry.next
+    }
+
+    // Stale pages are refreshing in the background - report the whole list once done
+    if (servedStale && onRevalidate) {
+      this.requestAll<T>(url, { ...requestOptions, staleWhileRevalidate: false })
+        .then(onRevalidate)
+        .catch(error => console.warn(`Background revalidation failed for ${url}:`, error))
+    }
+
+    return items
+  }
+
+  /**
+   * Drop a cached endpoint, including every later page of a list endpoint
+   */
+  async clearCache(cacheKey: string, cache: GitHubCacheStore = this.cache): Promise<void> {
+    const keys = await cache.keys()
+    const pages = keys.filter(key => key.startsWith(`${cacheKey}${PAGE_KEY_SEPARATOR}`))
+    await Promise.all([cacheKey, ...pages].map(key => cache.remove(key)))
+  }
+
+  /**
+   * Resolve a cache entry for a URL, revalidating it when it has expired
+   */
+  private async resolve<T>(
+    url: string,
+    options: GitHubRequestOptions<T>
+  ): Promise<ResolvedEntry<T>> {
+    const cache = options.cache ?? this.cache
+    const key = options.cacheKey ?? url
+    const cached = await cache.get<T>(key)
+
+    if (cached && Date.now() - cached.timestamp < this.options.cacheTimeout) {
+      return { entry: cached, stale: false }
+    }
+
+    // Out of budget - keep serving what we have rather than spending the last requests
+    const pausedUntil = this.rateLimit.pausedUntil(options.priority)
+    if (pausedUntil !== null) {
+      if (cached) return { entry: cached, stale: false }
+      throw new GitHubRateLimitError(url, pausedUntil)
+    }
+
+    if (cached && (options.staleWhileRevalidate ?? this.options.staleWhileRevalidate)) {
+      this.revalidate(url, key, cache, cached)
+        .then(entry => options.onRevalidate?.(entry.data))
+        .catch(error => console.warn(`Background revalidation failed for ${url}:`, error))
+      return { entry: cached, stale: true }
+    }
+
+    return { entry: await this.revalidate(url, key, cache, cached), stale: false }
+  }
+
+  /**
+   * Conditionally refetch a resource and update its cache entry; concurrent
+   * revalidations of the same key share a single network request
+   */
+  private revalidate<T>(
+    url: string,
+    key: string,
+    cache: GitHubCacheStore,
+    cached: GitHubCacheEntry<T> | null
+  ): Promise<GitHubCacheEntry<T>> {
+    const pending = this.inFlight.get(key)
+    if (pending) return pending as Promise<GitHubCacheEntry<T>>
+
+    const promise = this.fetchAndStore(url, key, cache, cached).finally(() =>
+      this.inFlight.delete(key)
     )
-    return response.json()
+    this.inFlight.set(key, promise)
+    return promise
+  }
+
+  private async fetchAndStore<T>(
+    url: string,
+    key: string,
+    cache: GitHubCacheStore,
+    cached: GitHubCacheEntry<T> | null
+  ): Promise<GitHubCacheEntry<T>> {
+    const response = await this.fetchWithRetry(url, cached)
+
+    if (response.status === 304 && cached) {
+      const entry = { ...cached, timestamp: Date.now() }
+      await cache.set(key, entry)
+      return entry
+    }
+
+    const entry: GitHubCacheEntry<T> = {
+      data: (await response.json()) as T,
+      timestamp: Date.now(),
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+      next: parseLinkHeader(response.headers.get('Link')).next,
+    }
+    await cache.set<T>(key, entry)
+    return entry
   }
 
-  static async getReleases(limit = 10): Promise<GitHubRelease[]> {
-    const response = await this.fetchWithRetry(
-      `${GITHUB_API_BASE}/repos/${MAIN_REPO}/releases?per_page=${limit}`
+  async getRepository(repository: string, options?: GitHubRequestOptions<GitHubRepository>) {
+    return this.request<GitHubRepository>(this.repoUrl(repository), options)
+  }
+
+  async getContributors(
+    repository: string,
+    options: GitHubPaginateOptions<GitHubContributor> = {}
+  ) {
+    return this.requestAll<GitHubContributor>(
+      this.repoUrl(repository, `/contributors?per_page=${options.perPage ?? this.options.perPage}`),
+      options
     )
-    return response.json()
   }
 
-  static async getContributors(): Promise<
-    Array<{ login: string; contributions: number; avatar_url: string }>
-  > {
-    const response = await this.fetchWithRetry(
-      `${GITHUB_API_BASE}/repos/${MAIN_REPO}/contributors?per_page=100`
+  async getReleases(repository: string, options: GitHubPaginateOptions<GitHubRelease> = {}) {
+    return this.requestAll<GitHubRelease>(
+      this.repoUrl(repository, `/releases?per_page=${options.perPage ?? this.options.perPage}`),
+      options
     )
-    return response.json()
   }
 
-  static async getRepositoryStats() {
-    try {
-      const [repo, contributors] = await Promise.all([this.getRepository(), this.getContributors()])
+  async getLatestRelease(repository: string, options?: GitHubRequestOptions<GitHubRelease>) {
+    return this.request<GitHubRelease>(this.repoUrl(repository, '/releases/latest'), options)
+  }
+
+  private buildHeaders(cached: GitHubCacheEntry<unknown> | null): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github.v3+json',
+    }
+
+    if (this.options.userAgent) {
+      headers['User-Agent'] = this.options.userAgent
+    }
+    if (this.options.token) {
+      headers.Authorization = `Bearer ${this.options.token}`
+    }
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag
+    } else if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified
+    }
+
+    return headers
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    cached: GitHubCacheEntry<unknown> | null
+  ): Promise<Response> {
+    const { maxRetries, retryDelay, maxRateLimitWait, onRetry } = this.options
+    const fetchImpl = this.options.fetch ?? fetch
+    let lastError: unknown = null
 
-      let latestRelease: GitHubRelease | null = null
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        latestRelease = await this.getLatestRelease()
-      } catch (error) {
-        console.warn('No releases found or error fetching latest release:', error)
+        const response = await fetchImpl(url, { headers: this.buildHeaders(cached) })
+        this.rateLimit.update(response.headers)
+
+        if (response.ok || response.status === 304) {
+          return response
+        }
+
+        if (response.status === 404) {
+          throw new GitHubApiError(`GitHub resource not found: ${url}`, 404, url)
+        }
+
+        if (response.status === 403 || response.status === 429) {
+          // Rate limit exceeded - only wait when the window resets soon enough
+          const resetTime = response.headers.get('X-RateLimit-Reset')
+          const resetAt = resetTime ? parseInt(resetTime) * 1000 : null
+          const waitTime = resetAt ? resetAt - Date.now() : 0
+          if (waitTime > 0 && waitTime < maxRateLimitWait) {
+            onRetry?.(attempt + 1, new GitHubRateLimitError(url, resetAt, response.status))
+            await sleep(waitTime)
+            continue
+          }
+          this.rateLimit.exhaust(resetAt)
+          throw new GitHubRateLimitError(url, resetAt, response.status)
+        }
+
+        lastError = new GitHubApiError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          url
+        )
+      } catch (err) {
+        // Not found and exhausted rate limits will not recover by retrying
+        if (err instanceof GitHubApiError) {
+          throw err
+        }
+        lastError = err
       }
 
-      return {
-        repository: repo,
-        contributors,
-        latestRelease,
-        stats: {
-          stars: repo.stargazers_count,
-          forks: repo.forks_count,
-          watchers: repo.watchers_count,
-          contributors: contributors.length,
-          openIssues: repo.open_issues_count,
-          language: repo.language,
-          license: repo.license?.name || 'Unknown',
-          lastUpdated: repo.updated_at,
-          description: repo.description || '',
-        },
+      if (attempt < maxRetries - 1) {
+        onRetry?.(attempt + 1, lastError)
+        await sleep(retryDelay * (attempt + 1))
       }
-    } catch (error) {
-      console.error('Error fetching GitHub stats:', error)
-      throw error
     }
+
+    throw lastError ?? new Error('Max retries exceeded')
   }
 
   static formatReleaseNotes(body: string): string {
@@ -121,9 +402,90 @@ export class GitHubAPI {
   }
 
   static isRateLimited(error: unknown): boolean {
-    return (
-      (error instanceof Error && error.message?.includes('403')) ||
-      (error instanceof Error && error.message?.includes('rate limit'))
+    if (error instanceof GitHubApiError) {
+      return error.status === 403 || error.status === 429
+    }
+    return error instanceof Error && error.message.toLowerCase().includes('rate limit')
+  }
+}
+
+/**
+ * Summarise repository data into the stats shown on the page. The version is
+ * null until the repository publishes a release.
+ */
+export const toGitHubStats = (
+  repo: GitHubRepository,
+  contributors: GitHubContributor[],
+  releases: GitHubRelease[]
+): GitHubStats => ({
+  stars: repo.stargazers_count,
+  forks: repo.forks_count,
+  contributors: contributors.length,
+  releases: releases.length,
+  lastUpdate: repo.updated_at,
+  version: releases[0]?.tag_name ?? null,
+})
+
+/**
+ * Merge contributor lists from several repositories. People are matched by login
+ * (case-insensitive) and their contributions summed, most active first.
+ */
+export const mergeContributors = (lists: GitHubContributor[][]): GitHubContributor[] => {
+  const merged = new Map<string, GitHubContributor>()
+  for (const contributor of lists.flat()) {
+    const key = contributor.login.toLowerCase()
+    const existing = merged.get(key)
+    merged.set(
+      key,
+      existing
+        ? { ...existing, contributions: existing.contributions + contributor.contributions }
+        : { ...contributor }
     )
   }
+  return [...merged.values()].sort((a, b) => b.contributions - a.contributions)
 }
+
+/**
+ * Combine per-repository stats. Contributors are not summed (the same person
+ * usually works on several repositories): pass the count of the merged
+ * contributor lists, or leave it out when a list is missing and the total is
+ * unknown. The version is the first repository's, i.e. the main app.
+ */
+export const aggregateGitHubStats = (
+  stats: GitHubStats[],
+  contributorCount?: number
+): AggregatedGitHubStats | null => {
+  const [primary] = stats
+  if (!primary) return null
+
+  const sum = (pick: (item: GitHubStats) => number) =>
+    stats.reduce((total, item) => total + pick(item), 0)
+
+  return {
+    stars: sum(item => item.stars),
+    forks: sum(item => item.forks),
+    contributors: contributorCount ?? null,
+    releases: sum(item => item.releases),
+    lastUpdate:
+      stats
+        .map(item => item.lastUpdate)
+        .sort()
+        .reverse()[0] ?? primary.lastUpdate,
+    version: primary.version,
+  }
+}
+
+/**
+ * Summarise repository data into the stats stored in project-info.json
+ */
+export const toProjectStats = (repo: GitHubRepository, contributorCount: number): ProjectStats => ({
+  stars: repo.stargazers_count,
+  forks: repo.forks_count,
+  watchers: repo.watchers_count,
+  contributors: contributorCount,
+  openIssues: repo.open_issues_count,
+  language: repo.language || 'Unknown',
+  license: repo.license?.name || 'Unknown',
+  lastUpdated: repo.updated_at,
+  description: repo.description || '',
+})
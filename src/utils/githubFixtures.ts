@@ -0,0 +1,98 @@
+/**
+ * Recorded GitHub API responses
+ * A recording fetch captures real responses (status, headers such as
+ * X-RateLimit-Remaining, and body) and a replay fetch serves them back, so the
+ * dev server, Playwright and Vitest can run the GitHub client with no network.
+ * Recordings are made by scripts/record-github-fixtures.js.
+ */
+
+export interface GitHubFixture {
+  status: number
+  headers: Record<string, string>
+  body: unknown
+}
+
+export interface GitHubFixtureSet {
+  recordedAt: string
+  // Responses keyed by request URL
+  responses: Record<string, GitHubFixture>
+}
+
+// Headers that are either sensitive or meaningless once replayed
+const IGNORED_HEADERS = new Set(['set-cookie', 'date', 'content-length', 'content-encoding'])
+
+const requestUrl = (input: RequestInfo | URL): string =>
+  typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+
+export const createFixtureSet = (): GitHubFixtureSet => ({
+  recordedAt: new Date().toISOString(),
+  responses: {},
+})
+
+/**
+ * Wrap a fetch implementation so every GitHub response is stored in `fixtures`
+ */
+export const createRecordingFetch =
+  (fixtures: GitHubFixtureSet, fetchImpl: typeof fetch = fetch): typeof fetch =>
+  async (input, init) => {
+    const response = await fetchImpl(input, init)
+
+    // 304s only make sense against a cache, so they are not worth replaying
+    if (response.status !== 304) {
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, name) => {
+        if (!IGNORED_HEADERS.has(name)) headers[name] = value
+      })
+
+      const text = await response.clone().text()
+      fixtures.responses[requestUrl(input)] = {
+        status: response.status,
+        headers,
+        body: text ? JSON.parse(text) : null,
+      }
+    }
+
+    return response
+  }
+
+/**
+ * Serve recorded responses by URL. Unrecorded URLs get a 404 so a missing
+ * fixture fails fast instead of falling through to the network.
+ */
+export const createReplayFetch = (
+  fixtures: GitHubFixtureSet | (() => Promise<GitHubFixtureSet>)
+): typeof fetch => {
+  let loaded: Promise<GitHubFixtureSet> | null = null
+  const load = () =>
+    (loaded ??= typeof fixtures === 'function' ? fixtures() : Promise.resolve(fixtures))
+
+  return async input => {
+    const url = requestUrl(input)
+    const fixture = (await load()).responses[url]
+
+    if (!fixture) {
+      console.warn(`No recorded GitHub fixture for ${url}`)
+      return new Response(JSON.stringify({ message: `No recorded fixture for ${url}` }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    return new Response(fixture.body === null ? null : JSON.stringify(fixture.body), {
+      status: fixture.status,
+      headers: fixture.headers,
+    })
+  }
+}
+
+/**
+ * Merge several fixture sets (e.g. one file per repository) into one
+ */
+export const mergeFixtureSets = (sets: GitHubFixtureSet[]): GitHubFixtureSet => ({
+  recordedAt:
+    sets
+      .map(set => set.recordedAt)
+      .sort()
+      .reverse()[0] ?? new Date(0).toISOString(),
+  responses: Object.assign({}, ...sets.map(set => set.responses)),
+})
@@ -0,0 +1,92 @@
+/**
+ * GitHub rate-limit budget tracking
+ * Reads `X-RateLimit-*` headers from every response so the client can hold back
+ * non-critical requests before the quota runs out, instead of finding out from
+ * a 403. The GitHub client imports it, so the sync scripts load it as well.
+ */
+
+export interface GitHubRateLimitState {
+  limit: number | null
+  remaining: number | null
+  // Epoch milliseconds at which the current window resets
+  resetAt: number | null
+  updatedAt: number | null
+}
+
+// Critical requests may spend the budget down to zero, normal ones stop at the threshold
+export type GitHubRequestPriority = 'critical' | 'normal'
+
+const initialState = (): GitHubRateLimitState => ({
+  limit: null,
+  remaining: null,
+  resetAt: null,
+  updatedAt: null,
+})
+
+const readNumber = (headers: Headers, name: string): number | null => {
+  const value = headers.get(name)
+  if (value === null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export class GitHubRateLimitTracker {
+  private current = initialState()
+  private readonly listeners = new Set<(state: GitHubRateLimitState) => void>()
+
+  constructor(readonly threshold = 10) {}
+
+  get state(): GitHubRateLimitState {
+    return this.current
+  }
+
+  /**
+   * Record the budget reported by a response; responses without the headers
+   * (e.g. replayed fixtures or proxies) leave the state untouched
+   */
+  update(headers: Headers): void {
+    const remaining = readNumber(headers, 'X-RateLimit-Remaining')
+    if (remaining === null) return
+
+    const reset = readNumber(headers, 'X-RateLimit-Reset')
+    this.set({
+      limit: readNumber(headers, 'X-RateLimit-Limit') ?? this.current.limit,
+      remaining,
+      resetAt: reset === null ? this.current.resetAt : reset * 1000,
+      updatedAt: Date.now(),
+    })
+  }
+
+  /**
+   * Mark the budget as spent, e.g. after a rate-limit response
+   */
+  exhaust(resetAt: number | null): void {
+    this.set({ ...this.current, remaining: 0, resetAt, updatedAt: Date.now() })
+  }
+
+  /**
+   * When requests of the given priority should be held, the time the window
+   * resets; null when they may be sent
+   */
+  pausedUntil(priority: GitHubRequestPriority = 'normal'): number | null {
+    const { remaining, resetAt } = this.current
+    if (remaining === null || resetAt === null || resetAt <= Date.now()) return null
+
+    const floor = priority === 'critical' ? 1 : this.threshold
+    return remaining < floor ? resetAt : null
+  }
+
+  subscribe(listener: (state: GitHubRateLimitState) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  reset(): void {
+    this.set(initialState())
+  }
+
+  private set(state: GitHubRateLimitState): void {
+    this.current = state
+    this.listeners.forEach(listener => listener(state))
+  }
+}
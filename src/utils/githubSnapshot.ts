@@ -0,0 +1,382 @@
+/**
+ * Build-time GitHub data snapshots
+ * Trims API payloads down to the typed fields the site uses and validates the
+ * result against the same types, so scripts/generate-github-snapshot.js cannot
+ * write a snapshot the app would misread.
+ */
+
+import type {
+  DownloadHistory,
+  DownloadHistorySample,
+  GitHubAsset,
+  GitHubContributor,
+  GitHubDownloadCounts,
+  GitHubLicense,
+  GitHubRelease,
+  GitHubRepository,
+  GitHubRepositorySnapshot,
+  GitHubSnapshot,
+  GitHubStats,
+} from '@/types/github'
+import { toGitHubStats } from '@/utils/github'
+
+// Field checks keyed by every property of a type - adding a property to the type
+// without describing it here is a compile error
+type Check = (value: unknown, path: string, errors: string[]) => void
+type Schema<T> = { [K in keyof Required<T>]: Check }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const primitive =
+  (type: 'string' | 'number' | 'boolean'): Check =>
+  (value, path, errors) => {
+    if (typeof value !== type) errors.push(`${path}: expected ${type}, got ${typeof value}`)
+  }
+
+const nullable =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (value !== null) check(value, path, errors)
+  }
+
+const object =
+  <T>(schema: Schema<T>): Check =>
+  (value, path, errors) => {
+    if (!isRecord(value)) {
+      errors.push(`${path}: expected object`)
+      return
+    }
+    for (const [key, check] of Object.entries<Check>(schema)) {
+      check(value[key], `${path}.${key}`, errors)
+    }
+  }
+
+const array =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected array`)
+      return
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`, errors))
+  }
+
+const record =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (!isRecord(value)) {
+      errors.push(`${path}: expected object`)
+      return
+    }
+    for (const [key, item] of Object.entries(value)) {
+      check(item, `${path}.${key}`, errors)
+    }
+  }
+
+const string = primitive('string')
+const number = primitive('number')
+const boolean = primitive('boolean')
+
+const licenseSchema: Schema<GitHubLicense> = { key: string, name: string, spdx_id: string }
+
+const repositorySchema: Schema<GitHubRepository> = {
+  id: number,
+  name: string,
+  full_name: string,
+  description: nullable(string),
+  html_url: string,
+  stargazers_count: number,
+  forks_count: number,
+  watchers_count: number,
+  open_issues_count: number,
+  language: nullable(string),
+  created_at: string,
+  updated_at: string,
+  pushed_at: string,
+  license: nullable(object(licenseSchema)),
+}
+
+const assetSchema: Schema<GitHubAsset> = {
+  id: number,
+  name: string,
+  size: number,
+  download_count: number,
+  browser_download_url: string,
+}
+
+const releaseSchema: Schema<GitHubRelease> = {
+  id: number,
+  tag_name: string,
+  name: string,
+  body: string,
+  draft: boolean,
+  prerelease: boolean,
+  published_at: string,
+  html_url: string,
+  assets: array(object(assetSchema)),
+}
+
+const contributorSchema: Schema<GitHubContributor> = {
+  id: number,
+  login: string,
+  avatar_url: string,
+  html_url: string,
+  contributions: number,
+}
+
+const statsSchema: Schema<GitHubStats> = {
+  stars: number,
+  forks: number,
+  contributors: number,
+  releases: number,
+  lastUpdate: string,
+  version: nullable(string),
+}
+
+const downloadsSchema: Schema<GitHubDownloadCounts> = {
+  total: number,
+  byRelease: record(number),
+}
+
+const repositorySnapshotSchema: Schema<GitHubRepositorySnapshot> = {
+  repo: object(repositorySchema),
+  stats: object(statsSchema),
+  contributors: array(object(contributorSchema)),
+  releases: array(object(releaseSchema)),
+  downloads: object(downloadsSchema),
+}
+
+const snapshotSchema: Schema<GitHubSnapshot> = {
+  generatedAt: nullable(string),
+  repositories: record(object(repositorySnapshotSchema)),
+}
+
+const positiveId = (id: number, path: string, errors: string[]) => {
+  if (!Number.isInteger(id) || id <= 0) errors.push(`${path}: expected a GitHub id, got ${id}`)
+}
+
+// What the types cannot express: the generator derives the stats from the lists
+// and keeps GitHub's ids and URLs, so hand-written data shows up as a mismatch
+const checkRepositorySnapshot = (
+  repository: string,
+  { repo, stats, contributors, releases }: GitHubRepositorySnapshot,
+  path: string,
+  errors: string[]
+) => {
+  if (repo.full_name.toLowerCase() !== repository.toLowerCase()) {
+    errors.push(`${path}.repo.full_name: expected ${repository}, got ${repo.full_name}`)
+  }
+  positiveId(repo.id, `${path}.repo.id`, errors)
+  contributors.forEach((contributor, index) =>
+    positiveId(contributor.id, `${path}.contributors[${index}].id`, errors)
+  )
+  releases.forEach((release, index) => {
+    const releasePath = `${path}.releases[${index}]`
+    positiveId(release.id, `${releasePath}.id`, errors)
+    release.assets.forEach((asset, assetIndex) =>
+      positiveId(asset.id, `${releasePath}.assets[${assetIndex}].id`, errors)
+    )
+    if (!release.html_url.startsWith(`${repo.html_url}/`)) {
+      errors.push(`${releasePath}.html_url: expected a page of ${repo.html_url}`)
+    }
+  })
+
+  const expected = toGitHubStats(repo, contributors, releases)
+  for (const key of Object.keys(expected) as (keyof GitHubStats)[]) {
+    if (stats[key] !== expected[key]) {
+      errors.push(
+        `${path}.stats.${key}: expected ${expected[key]} from the lists, got ${stats[key]}`
+      )
+    }
+  }
+}
+
+/**
+ * Validate an unknown value against the snapshot types, returning every mismatch
+ */
+export const validateGitHubSnapshot = (value: unknown): string[] => {
+  const errors: string[] = []
+  object(snapshotSchema)(value, 'snapshot', errors)
+  if (errors.length > 0) return errors
+
+  const snapshot = value as GitHubSnapshot
+  const repositories = Object.entries(snapshot.repositories)
+  if (snapshot.generatedAt === null && repositories.length > 0) {
+    errors.push('snapshot.generatedAt: expected the generation time, got null')
+  }
+  for (const [repository, item] of repositories) {
+    checkRepositorySnapshot(repository, item, `snapshot.repositories.${repository}`, errors)
+  }
+  return errors
+}
+
+const downloadHistorySchema: Schema<DownloadHistory> = {
+  repositories: record(
+    array(object<DownloadHistorySample>({ date: string, releases: record(record(number)) }))
+  ),
+}
+
+/**
+ * Validate an unknown value against the download history types
+ */
+export const validateDownloadHistory = (value: unknown): string[] => {
+  const errors: string[] = []
+  object(downloadHistorySchema)(value, 'history', errors)
+  return errors
+}
+
+/**
+ * The snapshot to serve, or null when it was never generated or is invalid -
+ * the app then treats snapshot data as unavailable and asks the API
+ */
+export const readGitHubSnapshot = (
+  value: unknown
+): (GitHubSnapshot & { generatedAt: string }) | null => {
+  const errors = validateGitHubSnapshot(value)
+  if (errors.length > 0) {
+    console.warn('Ignoring invalid GitHub snapshot:', errors)
+    return null
+  }
+  const snapshot = value as GitHubSnapshot
+  return snapshot.generatedAt === null ? null : { ...snapshot, generatedAt: snapshot.generatedAt }
+}
+
+/**
+ * The recorded download history, or an empty one when it is invalid
+ */
+export const readDownloadHistory = (value: unknown): DownloadHistory => {
+  const errors = validateDownloadHistory(value)
+  if (errors.length > 0) {
+    console.warn('Ignoring invalid download history:', errors)
+    return { repositories: {} }
+  }
+  return value as DownloadHistory
+}
+
+const pickRepository = (repo: GitHubRepository): GitHubRepository => ({
+  id: repo.id,
+  name: repo.name,
+  full_name: repo.full_name,
+  description: repo.description ?? null,
+  html_url: repo.html_url,
+  stargazers_count: repo.stargazers_count,
+  forks_count: repo.forks_count,
+  watchers_count: repo.watchers_count,
+  open_issues_count: repo.open_issues_count,
+  language: repo.language ?? null,
+  created_at: repo.created_at,
+  updated_at: repo.updated_at,
+  pushed_at: repo.pushed_at,
+  license: repo.license
+    ? { key: repo.license.key, name: repo.license.name, spdx_id: repo.license.spdx_id }
+    : null,
+})
+
+const pickRelease = (release: GitHubRelease): GitHubRelease => ({
+  id: release.id,
+  tag_name: release.tag_name,
+  name: release.name ?? release.tag_name,
+  body: release.body ?? '',
+  draft: release.draft,
+  prerelease: release.prerelease,
+  published_at: release.published_at,
+  html_url: release.html_url,
+  assets: release.assets.map(asset => ({
+    id: asset.id,
+    name: asset.name,
+    size: asset.size,
+    download_count: asset.download_count,
+    browser_download_url: asset.browser_download_url,
+  })),
+})
+
+const pickContributor = (contributor: GitHubContributor): GitHubContributor => ({
+  id: contributor.id,
+  login: contributor.login,
+  avatar_url: contributor.avatar_url,
+  html_url: contributor.html_url,
+  contributions: contributor.contributions,
+})
+
+/**
+ * Sum asset download counts per release tag and overall
+ */
+export const countDownloads = (releases: GitHubRelease[]): GitHubDownloadCounts => {
+  const byRelease: Record<string, number> = {}
+  for (const release of releases) {
+    byRelease[release.tag_name] = release.assets.reduce(
+      (total, asset) => total + asset.download_count,
+      0
+    )
+  }
+  return {
+    total: Object.values(byRelease).reduce((total, count) => total + count, 0),
+    byRelease,
+  }
+}
+
+/**
+ * Build a repository snapshot from raw API responses
+ */
+export const createRepositorySnapshot = (
+  repo: GitHubRepository,
+  contributors: GitHubContributor[],
+  releases: GitHubRelease[]
+): GitHubRepositorySnapshot => {
+  const publishedReleases = releases.filter(release => !release.draft).map(pickRelease)
+
+  return {
+    repo: pickRepository(repo),
+    stats: toGitHubStats(repo, contributors, publishedReleases),
+    contributors: contributors.map(pickContributor),
+    releases: publishedReleases,
+    downloads: countDownloads(publishedReleases),
+  }
+}
+
+/**
+ * Record the current asset download counts of a repository's releases
+ */
+export const createDownloadSample = (
+  releases: GitHubRelease[],
+  date: Date = new Date()
+): DownloadHistorySample => ({
+  date: date.toISOString().slice(0, 10),
+  releases: Object.fromEntries(
+    releases.map(release => [
+      release.tag_name,
+      Object.fromEntries(release.assets.map(asset => [asset.name, asset.download_count])),
+    ])
+  ),
+})
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const weekOf = (date: string): number => Math.floor((Date.parse(date) / DAY_MS + 3) / 7)
+
+/**
+ * Add a sample to a repository's history. A second run on the same day replaces
+ * that day's sample; samples older than `dailyDays` are thinned to the last one
+ * of each week so the data file stays small.
+ */
+export const appendDownloadSample = (
+  history: DownloadHistory,
+  repository: string,
+  sample: DownloadHistorySample,
+  { dailyDays = 90 }: { dailyDays?: number } = {}
+): DownloadHistory => {
+  const samples = [
+    ...(history.repositories[repository] ?? []).filter(item => item.date !== sample.date),
+    sample,
+  ].sort((a, b) => a.date.localeCompare(b.date))
+
+  const latest = Date.parse(samples[samples.length - 1]?.date ?? sample.date)
+  const compacted = samples.filter((item, index) => {
+    if (latest - Date.parse(item.date) < dailyDays * DAY_MS) return true
+    const next = samples[index + 1]
+    return !next || weekOf(next.date) !== weekOf(item.date)
+  })
+
+  return { repositories: { ...history.repositories, [repository]: compacted } }
+}
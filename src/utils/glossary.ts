@@ -0,0 +1,156 @@
+/**
+ * Glossary checker
+ * Enforces the terminology in `src/data/glossary.json` across locale messages:
+ * forbidden variants, capitalisation of case-sensitive terms, and source
+ * strings whose glossary term the translation does not use. TranslationManager
+ * runs these checks, so the translation scripts report the same issues.
+ */
+
+import type { Glossary, GlossaryEntry, GlossaryTerm } from '@/types/i18n'
+import type { TranslationIssue } from '@/utils/translationManager'
+
+const SOURCE_LOCALE = 'en'
+
+/**
+ * Glossary from parsed JSON, rejecting entries the checker cannot use
+ */
+export const loadGlossary = (data: unknown): Glossary => {
+  const terms = (data as Partial<Glossary> | null)?.terms
+  if (!Array.isArray(terms)) {
+    throw new Error('Glossary must have a "terms" array')
+  }
+
+  terms.forEach((term: Partial<GlossaryTerm>, index) => {
+    const entries = Object.values(term.translations ?? {})
+    if (!term.id || !term.translations?.[SOURCE_LOCALE]) {
+      throw new Error(`Glossary term ${index} needs an id and an "${SOURCE_LOCALE}" entry`)
+    }
+    if (entries.some(entry => typeof entry?.term !== 'string' || !entry.term)) {
+      throw new Error(`Glossary term "${term.id}" has an entry without a term`)
+    }
+  })
+
+  return { terms: terms as GlossaryTerm[] }
+}
+
+/**
+ * Every string in a locale's messages, keyed by its dotted path
+ */
+export const flattenMessages = (messages: unknown, path = ''): Map<string, string> => {
+  const strings = new Map<string, string>()
+
+  if (typeof messages === 'string') {
+    strings.set(path, messages)
+  } else if (typeof messages === 'object' && messages !== null) {
+    for (const [key, value] of Object.entries(messages)) {
+      flattenMessages(value, path ? `${path}.${key}` : key).forEach((text, childPath) =>
+        strings.set(childPath, text)
+      )
+    }
+  }
+
+  return strings
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Latin terms match whole words only; Chinese has no word boundaries to respect
+const termPattern = (forms: string[], caseSensitive: boolean): RegExp => {
+  const alternatives = forms.map(form => {
+    const start = /^\p{Script=Latin}/u.test(form) ? '(?<![\\p{L}\\p{N}])' : ''
+    const end = /\p{Script=Latin}$/u.test(form) ? '(?![\\p{L}\\p{N}])' : ''
+    return `${start}${escapeRegExp(form)}${end}`
+  })
+  return new RegExp(alternatives.join('|'), caseSensitive ? 'gu' : 'giu')
+}
+
+// Longest first, so a plural is not matched as its singular
+const formsOf = (entry: GlossaryEntry): string[] =>
+  [entry.term, ...(entry.forms ?? [])].sort((a, b) => b.length - a.length)
+
+// Keep a capital at the start of a sentence when swapping in a lowercase term
+const matchCapital = (replacement: string, original: string): string =>
+  /^\p{Lu}/u.test(original) && /^\p{Ll}/u.test(replacement)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement
+
+const replaceAll = (text: string, pattern: RegExp, replacement: string): string =>
+  text.replace(pattern, match => matchCapital(replacement, match))
+
+const checkString = (
+  term: GlossaryTerm,
+  entry: GlossaryEntry,
+  path: string,
+  text: string,
+  source: string | undefined,
+  sourceEntry: GlossaryEntry
+): TranslationIssue[] => {
+  const issues: TranslationIssue[] = []
+  const caseSensitive = term.caseSensitive ?? false
+
+  for (const variant of entry.forbidden ?? []) {
+    const pattern = termPattern([variant], false)
+    if (pattern.test(text)) {
+      issues.push({
+        path,
+        type: 'terminology',
+        severity: 'medium',
+        message: `Uses "${variant}" instead of the glossary term "${entry.term}"`,
+        suggestion: replaceAll(text, pattern, entry.term),
+      })
+    }
+  }
+
+  const uses = termPattern(formsOf(entry), caseSensitive).test(text)
+  if (caseSensitive && !uses && termPattern(formsOf(entry), false).test(text)) {
+    issues.push({
+      path,
+      type: 'terminology',
+      severity: 'low',
+      message: `"${entry.term}" must be written with this capitalisation`,
+      suggestion: replaceAll(text, termPattern(formsOf(entry), false), entry.term),
+    })
+  } else if (
+    !uses &&
+    source !== undefined &&
+    termPattern(formsOf(sourceEntry), caseSensitive).test(source)
+  ) {
+    issues.push({
+      path,
+      type: 'terminology',
+      severity: 'low',
+      message: `The English text uses "${sourceEntry.term}" but the translation lacks "${entry.term}"`,
+      suggestion: `Use "${entry.term}"`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Terminology issues in one locale's messages. With the English reference,
+ * strings whose source uses a glossary term must use the locale's term too.
+ */
+export const checkTerminology = (
+  glossary: Glossary,
+  messages: unknown,
+  locale: string,
+  reference?: unknown
+): TranslationIssue[] => {
+  const strings = flattenMessages(messages)
+  const sources =
+    reference && locale !== SOURCE_LOCALE ? flattenMessages(reference) : new Map<string, string>()
+  const issues: TranslationIssue[] = []
+
+  for (const term of glossary.terms) {
+    const entry = term.translations[locale]
+    const sourceEntry = term.translations[SOURCE_LOCALE]
+    if (!entry || !sourceEntry) continue
+
+    strings.forEach((text, path) => {
+      issues.push(...checkString(term, entry, path, text, sources.get(path), sourceEntry))
+    })
+  }
+
+  return issues
+}
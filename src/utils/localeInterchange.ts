@@ -0,0 +1,322 @@
+/**
+ * Locale interchange
+ * Converts locale messages to and from XLIFF 2.0 and gettext PO for
+ * translators working in CAT tools. Key paths such as `nav.home` are the unit
+ * ids (the PO msgctxt), so an edited file maps back onto the English message
+ * structure. Used by scripts/locale-interchange.js.
+ */
+
+import type { Glossary, TranslationImportDiff, TranslationUnit } from '@/types/i18n'
+import { flattenMessages } from '@/utils/glossary'
+import { escapeXml } from '@/utils/xml'
+
+export type InterchangeFormat = 'xliff' | 'po'
+
+export interface InterchangeDocument {
+  sourceLocale: string
+  targetLocale: string
+  units: TranslationUnit[]
+}
+
+const PLACEHOLDER_PATTERN = /\{\s*[\w.]+\s*\}/g
+
+/**
+ * Translator notes for a source string: placeholders to keep, plural forms
+ * and glossary terms
+ */
+export const describeSource = (
+  source: string,
+  targetLocale: string,
+  glossary?: Glossary
+): string[] => {
+  const notes: string[] = []
+  const placeholders = [...new Set(source.match(PLACEHOLDER_PATTERN) ?? [])]
+
+  if (placeholders.length > 0) {
+    notes.push(`Keep the placeholders ${placeholders.join(', ')}`)
+  }
+  if (source.includes(' | ')) {
+    notes.push('Plural forms, separated by " | "')
+  }
+  for (const term of glossary?.terms ?? []) {
+    const english = term.translations.en?.term
+    const translation = term.translations[targetLocale]?.term
+    if (!english || !translation || !source.toLowerCase().includes(english.toLowerCase())) {
+      continue
+    }
+    notes.push(
+      translation === english
+        ? `Glossary: keep "${english}" as is`
+        : `Glossary: "${english}" → "${translation}"`
+    )
+  }
+
+  return notes
+}
+
+/**
+ * Units for every English string, with the locale's translation where it has
+ * one. Missing translations need review, as do the ids in `flagged`, e.g.
+ * strings the translation report found problems with.
+ */
+export const buildUnits = (
+  reference: unknown,
+  messages: unknown,
+  targetLocale: string,
+  options: { glossary?: Glossary; flagged?: Set<string> } = {}
+): TranslationUnit[] => {
+  const targets = flattenMessages(messages)
+
+  return [...flattenMessages(reference)].map(([id, source]) => {
+    const target = targets.get(id)
+    return {
+      id,
+      source,
+      target,
+      notes: describeSource(source, targetLocale, options.glossary),
+      needsReview: !target?.trim() || (options.flagged?.has(id) ?? false),
+    }
+  })
+}
+
+// Rebuild a value shaped like the reference, taking strings from `lookup`
+const rebuild = (
+  reference: unknown,
+  lookup: (id: string, source: string) => string | undefined,
+  path = ''
+): unknown => {
+  if (typeof reference === 'string') return lookup(path, reference)
+
+  const child = (key: string | number, value: unknown) =>
+    rebuild(value, lookup, path ? `${path}.${key}` : String(key))
+
+  // Arrays keep their length, so a missing item falls back to English
+  if (Array.isArray(reference)) {
+    return reference.map((value, index) => child(index, value) ?? value)
+  }
+
+  if (typeof reference === 'object' && reference !== null) {
+    const entries = Object.entries(reference)
+      .map(([key, value]) => [key, child(key, value)] as const)
+      .filter(([, value]) => value !== undefined)
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined
+  }
+
+  return undefined
+}
+
+/**
+ * Apply imported units to a locale. The result follows the reference
+ * structure; strings the file leaves empty keep their current translation.
+ */
+export const applyUnits = (
+  reference: unknown,
+  current: unknown,
+  units: TranslationUnit[]
+): { messages: Record<string, unknown>; diff: TranslationImportDiff } => {
+  const sources = flattenMessages(reference)
+  const existing = flattenMessages(current)
+  const imported = new Map(units.map(unit => [unit.id, unit]))
+  const diff: TranslationImportDiff = {
+    added: [],
+    changed: [],
+    removed: [...existing.keys()].filter(id => !sources.has(id)),
+    unknown: units.filter(unit => !sources.has(unit.id)).map(unit => unit.id),
+    staleSource: [],
+    needsReview: [],
+  }
+
+  const messages = rebuild(reference, (id, source) => {
+    const unit = imported.get(id)
+    const before = existing.get(id)
+    const target = unit?.target?.trim() ? unit.target : undefined
+
+    if (unit && unit.source !== source) diff.staleSource.push(id)
+    if (unit?.needsReview) diff.needsReview.push(id)
+
+    if (target === undefined) return before
+    if (before === undefined) diff.added.push(id)
+    else if (before !== target) diff.changed.push({ id, from: before, to: target })
+    return target
+  })
+
+  return { messages: (messages ?? {}) as Record<string, unknown>, diff }
+}
+
+// XLIFF 2.0
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeXml(text))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+
+const readAttribute = (tag: string, name: string): string | undefined => {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag)
+  return match?.[1] !== undefined ? unescapeXml(match[1]) : undefined
+}
+
+const readElement = (xml: string, name: string): string | undefined => {
+  const match = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xml)
+  return match?.[1] !== undefined ? unescapeXml(match[1]) : undefined
+}
+
+export const serializeXliff = ({ sourceLocale, targetLocale, units }: InterchangeDocument) => {
+  const body = units.map(unit => {
+    const notes =
+      unit.notes.length > 0
+        ? `
+      <notes>
+${unit.notes.map(note => `        <note category="context">${escapeXml(note)}</note>`).join('\n')}
+      </notes>`
+        : ''
+    const target =
+      unit.target !== undefined ? `\n        <target>${escapeXml(unit.target)}</target>` : ''
+    return `    <unit id="${escapeXml(unit.id)}">${notes}
+      <segment state="${unit.needsReview ? 'initial' : 'translated'}">
+        <source>${escapeXml(unit.source)}</source>${target}
+      </segment>
+    </unit>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${sourceLocale}" trgLang="${targetLocale}">
+  <file id="messages">
+${body.join('\n')}
+  </file>
+</xliff>
+`
+}
+
+export const parseXliff = (xml: string): InterchangeDocument => {
+  const root = /<xliff\b[^>]*>/.exec(xml)?.[0]
+  if (!root || readAttribute(root, 'version') !== '2.0') {
+    throw new Error('Not an XLIFF 2.0 document')
+  }
+
+  const units = [...xml.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)].map(
+    ([, attributes = '', content = '']): TranslationUnit => {
+      const segment = /<segment\b[^>]*>/.exec(content)?.[0] ?? ''
+      const state = readAttribute(segment, 'state') ?? 'initial'
+      return {
+        id: readAttribute(attributes, 'id') ?? '',
+        source: readElement(content, 'source') ?? '',
+        target: readElement(content, 'target'),
+        notes: [...content.matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map(([, note = '']) =>
+          unescapeXml(note)
+        ),
+        needsReview: state === 'initial',
+      }
+    }
+  )
+
+  return {
+    sourceLocale: readAttribute(root, 'srcLang') ?? 'en',
+    targetLocale: readAttribute(root, 'trgLang') ?? '',
+    units,
+  }
+}
+
+// gettext PO
+
+const escapePo = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\n/g, '\\n')
+
+const unescapePo = (value: string): string =>
+  value.replace(/\\(["\\nt])/g, (_, char: string) =>
+    char === 'n' ? '\n' : char === 't' ? '\t' : char
+  )
+
+// Multi-line strings start with an empty line, as msgmerge writes them
+const poString = (keyword: string, value: string): string => {
+  const lines = value.split(/(?<=\n)/)
+  if (lines.length <= 1) return `${keyword} "${escapePo(value)}"`
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n')
+}
+
+export const serializePo = ({ sourceLocale, targetLocale, units }: InterchangeDocument) => {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    `"Language: ${targetLocale}\\n"`,
+    `"X-Source-Language: ${sourceLocale}\\n"`,
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+  ].join('\n')
+
+  const entries = units.map(unit =>
+    [
+      ...unit.notes.map(note => `#. ${note}`),
+      ...(unit.needsReview ? ['#, fuzzy'] : []),
+      poString('msgctxt', unit.id),
+      poString('msgid', unit.source),
+      poString('msgstr', unit.target ?? ''),
+    ].join('\n')
+  )
+
+  return `${[header, ...entries].join('\n\n')}\n`
+}
+
+export const parsePo = (po: string): InterchangeDocument => {
+  const entries = po.split(/\r?\n\s*\r?\n/).map(block => {
+    const fields: Record<string, string> = {}
+    const notes: string[] = []
+    let flags = ''
+    let current: string | null = null
+
+    for (const line of block.split(/\r?\n/)) {
+      const keyword = /^(msgctxt|msgid|msgstr)\s+"(.*)"\s*$/.exec(line)
+      const continuation = /^"(.*)"\s*$/.exec(line)
+      if (line.startsWith('#.')) notes.push(line.slice(2).trim())
+      else if (line.startsWith('#,')) flags += line.slice(2)
+      else if (keyword) {
+        current = keyword[1] ?? null
+        if (current) fields[current] = unescapePo(keyword[2] ?? '')
+      } else if (continuation && current) {
+        fields[current] += unescapePo(continuation[1] ?? '')
+      }
+    }
+
+    return { fields, notes, fuzzy: /\bfuzzy\b/.test(flags) }
+  })
+
+  const header = entries.find(({ fields }) => fields.msgid === '' && !fields.msgctxt)
+  const headerField = (name: string) =>
+    new RegExp(`^${name}:\\s*(.+)$`, 'm').exec(header?.fields.msgstr ?? '')?.[1]?.trim()
+
+  const units = entries
+    .filter(({ fields }) => fields.msgctxt !== undefined && fields.msgid !== undefined)
+    .map(
+      ({ fields, notes, fuzzy }): TranslationUnit => ({
+        id: fields.msgctxt ?? '',
+        source: fields.msgid ?? '',
+        target: fields.msgstr || undefined,
+        notes,
+        needsReview: fuzzy || !fields.msgstr,
+      })
+    )
+
+  return {
+    sourceLocale: headerField('X-Source-Language') ?? 'en',
+    targetLocale: headerField('Language') ?? '',
+    units,
+  }
+}
+
+export const INTERCHANGE_FORMATS: Record<
+  InterchangeFormat,
+  {
+    extension: string
+    serialize: (document: InterchangeDocument) => string
+    parse: (text: string) => InterchangeDocument
+  }
+> = {
+  xliff: { extension: 'xlf', serialize: serializeXliff, parse: parseXliff },
+  po: { extension: 'po', serialize: serializePo, parse: parsePo },
+}
@@ -0,0 +1,159 @@
+/**
+ * Package channels
+ * Registry of the package managers EchoNote is published to, with the commands
+ * to install, upgrade and uninstall it through each. Commands are generated
+ * for a release, pinned to its version where the package manager allows.
+ */
+
+import type {
+  AssetPatterns,
+  DownloadArchitecture,
+  PackageChannel,
+  PackageChannelCommands,
+  ReleaseAsset,
+  ResolvedAsset,
+} from '@/types/download'
+import { describeAssets } from '@/utils/assetResolver'
+import { compareVersions } from '@/utils/semver'
+
+const WINGET_ID = 'EchoNote.EchoNote'
+const FLATPAK_ID = 'io.github.johnnyzhao5619.EchoNote'
+const APT_REPOSITORY = 'https://johnnyzhao5619.github.io/echonote/apt'
+const APT_KEYRING = '/usr/share/keyrings/echonote.gpg'
+const APT_SOURCE = '/etc/apt/sources.list.d/echonote.list'
+
+export const PACKAGE_CHANNELS: PackageChannel[] = [
+  {
+    id: 'winget',
+    name: 'winget',
+    platform: 'windows',
+    minimumVersion: '1.0.0',
+    pinsVersion: true,
+    commands: ({ version }) => ({
+      install: `winget install --id ${WINGET_ID} --exact --version ${version}`,
+      upgrade: `winget upgrade --id ${WINGET_ID} --exact --version ${version}`,
+      uninstall: `winget uninstall --id ${WINGET_ID} --exact`,
+    }),
+  },
+  {
+    id: 'scoop',
+    name: 'Scoop',
+    platform: 'windows',
+    minimumVersion: '1.1.0',
+    pinsVersion: true,
+    commands: ({ version }) => ({
+      install: `scoop bucket add extras
+scoop install extras/echonote@${version}`,
+      upgrade: 'scoop update echonote',
+      uninstall: 'scoop uninstall echonote',
+    }),
+  },
+  {
+    id: 'homebrew',
+    name: 'Homebrew',
+    platform: 'macos',
+    minimumVersion: '1.0.0',
+    pinsVersion: false,
+    commands: () => ({
+      install: 'brew install --cask echonote',
+      upgrade: 'brew upgrade --cask echonote',
+      uninstall: 'brew uninstall --cask echonote',
+    }),
+  },
+  {
+    id: 'apt',
+    name: 'apt',
+    platform: 'linux',
+    minimumVersion: '1.0.0',
+    pinsVersion: true,
+    commands: ({ version }) => ({
+      install: `curl -fsSL ${APT_REPOSITORY}/echonote.gpg | sudo gpg --dearmor -o ${APT_KEYRING}
+echo "deb [signed-by=${APT_KEYRING}] ${APT_REPOSITORY} stable main" | sudo tee ${APT_SOURCE}
+sudo apt update
+sudo apt install echonote=${version}`,
+      upgrade: `sudo apt update
+sudo apt install --only-upgrade echonote=${version}`,
+      uninstall: `sudo apt remove echonote
+sudo rm ${APT_SOURCE} ${APT_KEYRING}`,
+    }),
+  },
+  {
+    id: 'rpm',
+    name: 'dnf (RPM)',
+    platform: 'linux',
+    minimumVersion: '1.0.0',
+    format: 'rpm',
+    pinsVersion: true,
+    commands: ({ asset }) => ({
+      install: `sudo dnf install ${asset?.url ?? ''}`,
+      upgrade: `sudo dnf upgrade ${asset?.url ?? ''}`,
+      uninstall: 'sudo dnf remove echonote',
+    }),
+  },
+  {
+    id: 'flatpak',
+    name: 'Flatpak',
+    platform: 'linux',
+    minimumVersion: '1.2.0',
+    pinsVersion: false,
+    commands: () => ({
+      install: `flatpak install flathub ${FLATPAK_ID}`,
+      upgrade: `flatpak update ${FLATPAK_ID}`,
+      uninstall: `flatpak uninstall ${FLATPAK_ID}`,
+    }),
+  },
+  {
+    id: 'aur',
+    name: 'AUR',
+    platform: 'linux',
+    minimumVersion: '1.1.0',
+    pinsVersion: false,
+    commands: () => ({
+      install: 'yay -S echonote-bin',
+      upgrade: 'yay -Syu echonote-bin',
+      uninstall: 'yay -Rns echonote-bin',
+    }),
+  },
+]
+
+// A channel with its commands for one release
+export interface ChannelInstructions {
+  channel: PackageChannel
+  commands: PackageChannelCommands
+}
+
+/**
+ * The release file a channel installs, preferring the given architecture
+ */
+export const findChannelAsset = (
+  channel: PackageChannel,
+  assets: ReleaseAsset[],
+  patterns: AssetPatterns,
+  architecture: DownloadArchitecture = 'x64'
+): ResolvedAsset | null => {
+  if (!channel.format) return null
+  const matches = describeAssets(assets, patterns).filter(
+    asset => asset.platform === channel.platform && asset.format === channel.format
+  )
+  return matches.find(asset => asset.architecture === architecture) ?? matches[0] ?? null
+}
+
+/**
+ * Commands for every channel that carries a release. A channel is left out
+ * when the release predates it, or when it installs a file the release lacks.
+ */
+export const getChannelInstructions = (
+  release: { version: string; assets: ReleaseAsset[] },
+  patterns: AssetPatterns,
+  options: { channels?: PackageChannel[]; architecture?: DownloadArchitecture } = {}
+): ChannelInstructions[] => {
+  const { channels = PACKAGE_CHANNELS, architecture } = options
+  const version = release.version.replace(/^v/i, '')
+
+  return channels.flatMap(channel => {
+    if (compareVersions(version, channel.minimumVersion) < 0) return []
+    const asset = findChannelAsset(channel, release.assets, patterns, architecture)
+    if (channel.format && !asset) return []
+    return [{ channel, commands: channel.commands({ version, asset }) }]
+  })
+}
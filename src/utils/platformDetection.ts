@@ -0,0 +1,286 @@
+/**
+ * Platform detection
+ * Works out the visitor's operating system, CPU architecture, OS version and
+ * Linux distribution for download recommendations. User-Agent Client Hints are
+ * used where the browser offers them; elsewhere the user agent string is parsed,
+ * which is frozen in most browsers (macOS always reports 10.15.7 on Intel, and
+ * Windows 11 reports itself as Windows 10). Phones, tablets and agents that
+ * name no system are reported as such rather than guessed at. Parsing works on
+ * plain strings; only `detectSystem` reads the browser's navigator.
+ */
+
+import type { DownloadArchitecture, InstallerPlatform } from '@/types/download'
+import type {
+  ClientHints,
+  DesktopSystemInfo,
+  LinuxDistro,
+  OsRequirement,
+  RequirementIssue,
+  SystemArchitecture,
+  SystemInfo,
+  SystemPlatform,
+} from '@/types/platform'
+import { compareVersions } from '@/utils/semver'
+
+// The part of `navigator` detection reads, so tests can pass their own
+export interface NavigatorLike {
+  userAgent: string
+  // iPadOS Safari asks for desktop sites as a Mac; only touch support gives it away
+  maxTouchPoints?: number
+  userAgentData?: {
+    getHighEntropyValues: (hints: string[]) => Promise<ClientHints>
+  }
+}
+
+const HIGH_ENTROPY_HINTS = ['architecture', 'bitness', 'platformVersion']
+
+// Windows NT kernel versions in the user agent, by Windows release
+const WINDOWS_NT_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+}
+
+const LINUX_DISTROS: [LinuxDistro, RegExp][] = [
+  ['ubuntu', /\b[kx]?ubuntu(?:[/ ](\d+(?:\.\d+)*))?/i],
+  ['mint', /\blinux mint(?:[/ ](\d+(?:\.\d+)*))?/i],
+  ['debian', /\bdebian(?:[/ ](\d+(?:\.\d+)*))?/i],
+  ['fedora', /\bfedora(?:[/ ](\d+))?/i],
+  ['opensuse', /\bopensuse(?:[/ ](\d+(?:\.\d+)*))?/i],
+  ['centos', /\bcentos(?:[/ ](\d+(?:\.\d+)*))?/i],
+  ['arch', /\barch linux\b/i],
+]
+
+// Client Hints platform names
+const HINT_PLATFORMS: Record<string, SystemPlatform> = {
+  Windows: 'windows',
+  macOS: 'macos',
+  Linux: 'linux',
+  Android: 'android',
+  iOS: 'ios',
+}
+
+const PLATFORM_NAMES: Record<Exclude<SystemPlatform, 'linux'>, string> = {
+  windows: 'Windows',
+  macos: 'macOS',
+  android: 'Android',
+  ios: 'iOS',
+  unknown: 'Unknown system',
+}
+
+const DISTRO_NAMES: Record<LinuxDistro, string> = {
+  ubuntu: 'Ubuntu',
+  debian: 'Debian',
+  fedora: 'Fedora',
+  mint: 'Linux Mint',
+  opensuse: 'openSUSE',
+  centos: 'CentOS',
+  arch: 'Arch Linux',
+}
+
+const parseArchitecture = (userAgent: string): SystemArchitecture | undefined => {
+  if (/\b(arm64|aarch64)\b/i.test(userAgent)) return 'arm64'
+  if (/\b(x86_64|x64|win64|wow64|amd64)\b/i.test(userAgent)) return 'x64'
+  if (/\barm(v\d+\w*)?\b/i.test(userAgent)) return 'arm'
+  if (/\b(i[3-6]86|x86)\b/i.test(userAgent)) return 'x86'
+  return undefined
+}
+
+/**
+ * System information from a user agent string alone
+ */
+export const parseUserAgent = (userAgent: string): SystemInfo => {
+  // Mobile systems first: Android says "Linux", iOS says "like Mac OS X"
+  const android = /android(?:[ /](\d+(?:\.\d+)*))?/i.exec(userAgent)
+  if (android) {
+    return { platform: 'android', osVersion: android[1], source: 'user-agent' }
+  }
+
+  const ios = /\b(?:iphone|ipad|ipod)\b.*?\bos (\d+(?:_\d+)*)/i.exec(userAgent)
+  if (ios || /\b(?:iphone|ipad|ipod)\b/i.test(userAgent)) {
+    return { platform: 'ios', osVersion: ios?.[1]?.replace(/_/g, '.'), source: 'user-agent' }
+  }
+
+  const windows = /windows nt (\d+\.\d+)/i.exec(userAgent)
+  if (windows || /windows/i.test(userAgent)) {
+    return {
+      platform: 'windows',
+      // 64-bit Windows always says so; a bare "Windows NT" is a 32-bit system
+      architecture: parseArchitecture(userAgent) ?? (windows ? 'x86' : undefined),
+      osVersion: windows ? WINDOWS_NT_VERSIONS[windows[1] ?? ''] : undefined,
+      source: 'user-agent',
+    }
+  }
+
+  const mac = /mac os x (\d+[._]\d+(?:[._]\d+)?)/i.exec(userAgent)
+  if (mac || /macintosh|mac os/i.test(userAgent)) {
+    return {
+      platform: 'macos',
+      // Apple Silicon Macs still report "Intel", so the user agent cannot tell
+      architecture: undefined,
+      osVersion: mac?.[1]?.replace(/_/g, '.'),
+      source: 'user-agent',
+    }
+  }
+
+  if (/linux|x11/i.test(userAgent)) {
+    const [distro, match] =
+      LINUX_DISTROS.map(([name, pattern]) => [name, pattern.exec(userAgent)] as const).find(
+        ([, match]) => match
+      ) ?? []
+    return {
+      platform: 'linux',
+      architecture: parseArchitecture(userAgent),
+      osVersion: match?.[1],
+      distro,
+      source: 'user-agent',
+    }
+  }
+
+  return { platform: 'unknown', source: 'user-agent' }
+}
+
+// Windows reports its release through the major platform version:
+// 13 and up is Windows 11, 1 to 10 is Windows 10, 0.1 to 0.3 are Windows 7 to 8.1
+const windowsVersionFromHints = (platformVersion: string): string | undefined => {
+  const [major = NaN, minor = NaN] = platformVersion.split('.').map(Number)
+  if (major >= 13) return '11'
+  if (major >= 1) return '10'
+  if (major === 0) return { 1: '7', 2: '8', 3: '8.1' }[minor]
+  return undefined
+}
+
+const architectureFromHints = (hints: ClientHints): SystemArchitecture | undefined => {
+  const is32Bit = hints.bitness === '32'
+  if (hints.architecture === 'x86') return is32Bit ? 'x86' : 'x64'
+  if (hints.architecture === 'arm') return is32Bit ? 'arm' : 'arm64'
+  return undefined
+}
+
+/**
+ * System information from Client Hints, with the user agent filling the gaps
+ */
+export const parseClientHints = (hints: ClientHints, userAgent: string): SystemInfo => {
+  const parsed = parseUserAgent(userAgent)
+  const platform = (hints.platform && HINT_PLATFORMS[hints.platform]) || parsed.platform
+  const base = platform === parsed.platform ? parsed : { platform, source: parsed.source }
+
+  // Linux reports a kernel version, which says nothing about the distribution
+  let osVersion = base.osVersion
+  if (hints.platformVersion && platform === 'windows') {
+    osVersion = windowsVersionFromHints(hints.platformVersion) ?? osVersion
+  } else if (hints.platformVersion && platform === 'macos') {
+    osVersion = hints.platformVersion
+  }
+
+  return {
+    ...base,
+    architecture: architectureFromHints(hints) ?? base.architecture,
+    osVersion,
+    source: 'client-hints',
+  }
+}
+
+/**
+ * Detect the visitor's system, asking for Client Hints when the browser has them
+ */
+export const detectSystem = async (
+  nav: NavigatorLike | undefined = typeof navigator === 'undefined'
+    ? undefined
+    : (navigator as NavigatorLike)
+): Promise<SystemInfo> => {
+  const userAgent = nav?.userAgent ?? ''
+  if (!nav?.userAgentData) {
+    const parsed = parseUserAgent(userAgent)
+    return parsed.platform === 'macos' && (nav?.maxTouchPoints ?? 0) > 1
+      ? { platform: 'ios', source: 'user-agent' }
+      : parsed
+  }
+
+  try {
+    const hints = await nav.userAgentData.getHighEntropyValues(HIGH_ENTROPY_HINTS)
+    return parseClientHints(hints, userAgent)
+  } catch {
+    return parseUserAgent(userAgent)
+  }
+}
+
+/**
+ * Whether EchoNote has an installer for the system, i.e. it is a desktop
+ */
+export const isDesktopSystem = (system: SystemInfo): system is DesktopSystemInfo =>
+  system.platform === 'windows' || system.platform === 'macos' || system.platform === 'linux'
+
+/**
+ * Architecture to ask the asset resolver for; 32-bit systems have no installer
+ */
+export const toDownloadArchitecture = (
+  architecture: SystemArchitecture | undefined
+): DownloadArchitecture | undefined =>
+  architecture === 'x64' || architecture === 'arm64' ? architecture : undefined
+
+/**
+ * Name and version of a system for messages, e.g. "Windows 7" or "Ubuntu 16.04"
+ */
+export const formatSystemName = (
+  system: Pick<SystemInfo, 'platform' | 'osVersion' | 'distro'>
+): string => {
+  const name =
+    system.platform !== 'linux'
+      ? PLATFORM_NAMES[system.platform]
+      : system.distro
+        ? DISTRO_NAMES[system.distro]
+        : 'Linux'
+  return system.osVersion ? `${name} ${system.osVersion}` : name
+}
+
+/**
+ * Oldest supported releases of a platform, e.g. "macOS 10.14+" or
+ * "Ubuntu 18.04+ / Debian 10+" for Linux distributions
+ */
+export const formatOsRequirement = (platform: InstallerPlatform, os: OsRequirement): string => {
+  const minimums: [LinuxDistro | undefined, string | undefined][] =
+    platform === 'linux'
+      ? (Object.entries(os.distroVersions ?? {}) as [LinuxDistro, string][])
+      : [[undefined, os.minimumVersion]]
+  return minimums
+    .map(([distro, osVersion]) => {
+      const name = formatSystemName({ platform, distro, osVersion })
+      return osVersion ? `${name}+` : name
+    })
+    .join(' / ')
+}
+
+/**
+ * Ways the system falls short of the requirements. Anything the detection
+ * could not tell is given the benefit of the doubt.
+ */
+export const checkSystemRequirements = (
+  system: SystemInfo,
+  requirements: OsRequirement
+): RequirementIssue[] => {
+  const issues: RequirementIssue[] = []
+
+  if (system.architecture && !requirements.architectures.includes(system.architecture)) {
+    issues.push({
+      kind: 'architecture',
+      architecture: system.architecture,
+      supported: [...requirements.architectures],
+    })
+  }
+
+  const minimum =
+    system.platform === 'linux'
+      ? system.distro && requirements.distroVersions?.[system.distro]
+      : requirements.minimumVersion
+  if (minimum && system.osVersion && compareVersions(system.osVersion, minimum) < 0) {
+    issues.push({
+      kind: 'osVersion',
+      system: formatSystemName(system),
+      requirement: formatSystemName({ ...system, osVersion: minimum }),
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,187 @@
+/**
+ * Release feeds
+ * Builds RSS 2.0, Atom and JSON Feed 1.1 documents from changelog releases,
+ * with entries linking to the /changelog/:version permalinks. Used by
+ * scripts/generate-release-feeds.js at build time, and by useSEO for the
+ * autodiscovery links.
+ */
+
+import type { ChangelogRelease, ReleaseNoteCategory, ReleaseNoteItem } from '@/types/changelog'
+import { parseReleaseNotesDocument } from '@/utils/releaseNotes'
+import { escapeXml } from '@/utils/xml'
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+export const FEED_FORMATS: Record<FeedFormat, { extension: string; mimeType: string }> = {
+  rss: { extension: 'xml', mimeType: 'application/rss+xml' },
+  atom: { extension: 'atom', mimeType: 'application/atom+xml' },
+  json: { extension: 'json', mimeType: 'application/feed+json' },
+}
+
+export interface ReleaseFeedOptions {
+  releases: ChangelogRelease[]
+  // Absolute site URL without a trailing slash
+  siteUrl: string
+  locale: string
+  title: string
+  description: string
+  // Localized headings for the sections of each entry
+  sectionLabels: Record<ReleaseNoteCategory, string>
+  defaultLocale?: string
+}
+
+// Breaking changes first, matching the changelog page
+const SECTION_ORDER: ReleaseNoteCategory[] = [
+  'breaking',
+  'features',
+  'improvements',
+  'bugFixes',
+  'other',
+]
+
+/**
+ * Feed file name for a locale: `releases.xml` for the default locale,
+ * `releases.zh-CN.xml` for the others
+ */
+export const getFeedFileName = (format: FeedFormat, locale: string, defaultLocale = 'en') =>
+  `releases${locale === defaultLocale ? '' : `.${locale}`}.${FEED_FORMATS[format].extension}`
+
+export const getReleasePermalink = (siteUrl: string, version: string): string =>
+  `${siteUrl}/changelog/${encodeURIComponent(version)}`
+
+const renderItems = (items: ReleaseNoteItem[]): string =>
+  `<ul>${items
+    .map(
+      item =>
+        `<li>${escapeXml(item.scope ? `${item.scope}: ${item.text}` : item.text)}${
+          item.children.length > 0 ? renderItems(item.children) : ''
+        }</li>`
+    )
+    .join('')}</ul>`
+
+/**
+ * Release notes as HTML, grouped under the localized section headings
+ */
+export const renderReleaseHtml = (
+  release: ChangelogRelease,
+  sectionLabels: Record<ReleaseNoteCategory, string>
+): string => {
+  const { categories } = parseReleaseNotesDocument(release.body)
+  return SECTION_ORDER.filter(category => categories[category].length > 0)
+    .map(
+      category =>
+        `<h3>${escapeXml(sectionLabels[category])}</h3>${renderItems(categories[category])}`
+    )
+    .join('')
+}
+
+const entryTitle = (release: ChangelogRelease): string =>
+  release.title ? `${release.version}: ${release.title}` : release.version
+
+const feedUrl = (options: ReleaseFeedOptions, format: FeedFormat): string =>
+  `${options.siteUrl}/${getFeedFileName(format, options.locale, options.defaultLocale)}`
+
+const lastUpdated = (releases: ChangelogRelease[]): string =>
+  releases
+    .map(release => release.date)
+    .sort()
+    .reverse()[0] ?? new Date(0).toISOString()
+
+export const buildRssFeed = (options: ReleaseFeedOptions): string => {
+  const { releases, siteUrl, locale, title, description, sectionLabels } = options
+
+  const items = releases.map(release => {
+    const link = getReleasePermalink(siteUrl, release.version)
+    return [
+      '    <item>',
+      `      <title>${escapeXml(entryTitle(release))}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      `      <pubDate>${new Date(release.date).toUTCString()}</pubDate>`,
+      ...(release.prerelease ? ['      <category>prerelease</category>'] : []),
+      `      <description>${escapeXml(renderReleaseHtml(release, sectionLabels))}</description>`,
+      '    </item>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(`${siteUrl}/changelog`)}</link>`,
+    `    <description>${escapeXml(description)}</description>`,
+    `    <language>${escapeXml(locale)}</language>`,
+    `    <lastBuildDate>${new Date(lastUpdated(releases)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feedUrl(options, 'rss'))}" rel="self" type="${FEED_FORMATS.rss.mimeType}" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+export const buildAtomFeed = (options: ReleaseFeedOptions): string => {
+  const { releases, siteUrl, locale, title, description, sectionLabels } = options
+
+  const entries = releases.map(release => {
+    const link = getReleasePermalink(siteUrl, release.version)
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(link)}</id>`,
+      `    <title>${escapeXml(entryTitle(release))}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}" />`,
+      `    <published>${release.date}</published>`,
+      `    <updated>${release.date}</updated>`,
+      ...(release.prerelease ? ['    <category term="prerelease" />'] : []),
+      `    <content type="html">${escapeXml(renderReleaseHtml(release, sectionLabels))}</content>`,
+      '  </entry>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(locale)}">`,
+    `  <id>${escapeXml(`${siteUrl}/changelog`)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <subtitle>${escapeXml(description)}</subtitle>`,
+    `  <updated>${lastUpdated(releases)}</updated>`,
+    `  <link rel="self" type="${FEED_FORMATS.atom.mimeType}" href="${escapeXml(feedUrl(options, 'atom'))}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(`${siteUrl}/changelog`)}" />`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+export const buildJsonFeed = (options: ReleaseFeedOptions): string => {
+  const { releases, siteUrl, locale, title, description, sectionLabels } = options
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    description,
+    language: locale,
+    home_page_url: `${siteUrl}/changelog`,
+    feed_url: feedUrl(options, 'json'),
+    items: releases.map(release => {
+      const link = getReleasePermalink(siteUrl, release.version)
+      return {
+        id: link,
+        url: link,
+        title: entryTitle(release),
+        content_html: renderReleaseHtml(release, sectionLabels),
+        date_published: release.date,
+        ...(release.prerelease ? { tags: ['prerelease'] } : {}),
+      }
+    }),
+  }
+
+  return `${JSON.stringify(feed, null, 2)}\n`
+}
+
+export const FEED_BUILDERS: Record<FeedFormat, (options: ReleaseFeedOptions) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+}
@@ -0,0 +1,322 @@
+/**
+ * Release note parser
+ * Turns the markdown body of a GitHub release into a tree of sections and
+ * list items. Understands heading levels, nested bullets, Conventional Commit
+ * prefixes (`feat:`, `fix!:`), GitHub's generated "What's Changed" blocks,
+ * PR/issue references and @mentions. The release feeds render from the same
+ * tree, including when the feed script builds them.
+ */
+
+import type {
+  ParsedReleaseNotes,
+  ReleaseNoteCategory,
+  ReleaseNoteItem,
+  ReleaseNoteReference,
+  ReleaseNoteSection,
+  ReleaseNotesDocument,
+} from '@/types/changelog'
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+// A line that is bold and nothing else, e.g. "**Bug Fixes**" or "**Features:**"
+const BOLD_HEADING = /^\*\*([^*]+?):?\*\*:?$/
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const FENCE = /^\s*(```|~~~)/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const FULL_CHANGELOG = /^\*\*Full Changelog\*\*:?\s*(\S+)/i
+
+const COMMIT_PREFIX =
+  /^(feat|feature|fix|perf|refactor|docs|style|test|build|ci|chore|revert)(?:\(([^)]*)\))?(!)?:\s*/i
+const BREAKING_PREFIX = /^BREAKING[ -]CHANGES?:\s*/
+// GitHub's generated entries: "<title> by @user in https://github.com/o/r/pull/12"
+const ATTRIBUTION = /\s+by\s+@[\w-]+\s+in\s+\S+\s*$/
+// Trailing "(#12)" or "(#12, owner/repo#13)" left by squash merges
+const TRAILING_REFERENCES = /\s*\((?:[\w.-]+\/[\w.-]+)?#\d+(?:,\s*(?:[\w.-]+\/[\w.-]+)?#\d+)*\)\s*$/
+
+const REFERENCE_URL = /https?:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/(pull|issues)\/(\d+)/g
+const REFERENCE = /(^|[\s([,])((?:[\w.-]+\/[\w.-]+)?)#(\d+)\b/g
+const MENTION = /(^|[^\w/@.])@([a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38})\b/gi
+
+const COMMIT_TYPE_CATEGORIES: Record<string, ReleaseNoteCategory> = {
+  feat: 'features',
+  feature: 'features',
+  fix: 'bugFixes',
+  perf: 'improvements',
+  refactor: 'improvements',
+  docs: 'other',
+  style: 'other',
+  test: 'other',
+  build: 'other',
+  ci: 'other',
+  chore: 'other',
+  revert: 'other',
+}
+
+// Checked in order against the heading text; "What's Changed" is handled before these
+const HEADING_CATEGORIES: [RegExp, ReleaseNoteCategory][] = [
+  [/\bbreaking\b/, 'breaking'],
+  [/\b(feat|features?|added|additions?|what'?s new)\b/, 'features'],
+  [/\b(bug ?fix(es)?|fix(es|ed)?|bugs?|patch(es)?)\b/, 'bugFixes'],
+  [
+    /\b(improvements?|enhancements?|performance|refactor(ing)?|changed|technical|optimi[sz]ations?)\b/,
+    'improvements',
+  ],
+  [/\b(other|misc(ellaneous)?|chores?|maintenance|documentation|dependencies)\b/, 'other'],
+]
+
+interface RawItem {
+  indent: number
+  raw: string
+  children: RawItem[]
+}
+
+const normalizeHeading = (heading: string): string =>
+  heading
+    .replace(/[*_`]/g, '')
+    .replace(/[’]/g, "'")
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+
+const isNewContributorsHeading = (heading: string) =>
+  /\bnew contributors?\b/.test(normalizeHeading(heading))
+
+/**
+ * Category of a heading, or null when its items should be categorized one by one
+ */
+export const categorizeHeading = (heading: string): ReleaseNoteCategory | null => {
+  const text = normalizeHeading(heading)
+  if (/\bwhat'?s changed\b/.test(text)) return null
+  return HEADING_CATEGORIES.find(([pattern]) => pattern.test(text))?.[1] ?? null
+}
+
+// Inline code and URLs can contain "#" and "@" that are not references or mentions
+const stripCodeAndUrls = (text: string): string =>
+  text.replace(/`[^`]*`/g, ' ').replace(/https?:\/\/\S+/g, ' ')
+
+export const extractReferences = (text: string): ReleaseNoteReference[] => {
+  const references: ReleaseNoteReference[] = []
+  const seen = new Set<string>()
+  const add = (reference: ReleaseNoteReference) => {
+    const key = `${reference.repository ?? ''}#${reference.number}`
+    if (seen.has(key)) return
+    seen.add(key)
+    references.push(reference)
+  }
+
+  for (const [url, repository, kind, number] of text.matchAll(REFERENCE_URL)) {
+    add({
+      kind: kind === 'pull' ? 'pull' : 'issue',
+      number: Number(number),
+      repository: repository ?? null,
+      url,
+    })
+  }
+  // GitHub resolves "#12" to either a pull request or an issue, so bare numbers are issues
+  for (const [, , repository, number] of stripCodeAndUrls(text).matchAll(REFERENCE)) {
+    add({ kind: 'issue', number: Number(number), repository: repository || null, url: null })
+  }
+
+  return references
+}
+
+export const extractMentions = (text: string): string[] => [
+  ...new Set([...stripCodeAndUrls(text).matchAll(MENTION)].map(([, , login]) => login ?? '')),
+]
+
+const parseItem = (item: RawItem, inherited: ReleaseNoteCategory | null): ReleaseNoteItem => {
+  const raw = item.raw.trim()
+  let text = raw.replace(ATTRIBUTION, '').replace(TRAILING_REFERENCES, '')
+
+  let commitType: string | null = null
+  let scope: string | null = null
+  let breaking = false
+
+  const prefix = COMMIT_PREFIX.exec(text)
+  if (prefix) {
+    commitType = prefix[1]?.toLowerCase() ?? null
+    scope = prefix[2]?.trim() || null
+    breaking = prefix[3] === '!'
+    text = text.slice(prefix[0].length)
+  }
+  if (BREAKING_PREFIX.test(text)) {
+    breaking = true
+    text = text.replace(BREAKING_PREFIX, '')
+  }
+
+  const category: ReleaseNoteCategory = breaking
+    ? 'breaking'
+    : ((commitType ? COMMIT_TYPE_CATEGORIES[commitType] : undefined) ?? inherited ?? 'other')
+
+  return {
+    text: text.trim(),
+    raw,
+    category,
+    commitType,
+    scope,
+    breaking,
+    references: extractReferences(raw),
+    authors: extractMentions(raw),
+    children: item.children.map(child => parseItem(child, category)),
+  }
+}
+
+const createSection = (heading: string | null, level: number) => ({
+  heading,
+  level,
+  category: heading === null ? null : categorizeHeading(heading),
+  rawItems: [] as RawItem[],
+  paragraphs: [] as string[],
+})
+
+/**
+ * Parse a markdown release body into a document tree
+ */
+export const parseReleaseNotesDocument = (body: string): ReleaseNotesDocument => {
+  const sections: ReturnType<typeof createSection>[] = []
+  const newContributors: string[] = []
+  let fullChangelogUrl: string | null = null
+
+  let current = createSection(null, 0)
+  // Open list items, innermost last
+  let stack: RawItem[] = []
+  let inFence = false
+  let collectingNewContributors = false
+
+  const startSection = (heading: string, level: number) => {
+    sections.push(current)
+    stack = []
+    collectingNewContributors = isNewContributorsHeading(heading)
+    current = createSection(heading.replace(/[*_`]/g, '').trim(), level)
+  }
+
+  const lines = (body || '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n')
+
+  for (const line of lines) {
+    if (FENCE.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence || RULE.test(line)) continue
+
+    const trimmed = line.trim()
+    if (!trimmed) continue
+
+    const fullChangelog = FULL_CHANGELOG.exec(trimmed)
+    if (fullChangelog) {
+      fullChangelogUrl = fullChangelog[1] ?? null
+      continue
+    }
+
+    const heading = HEADING.exec(trimmed)
+    if (heading) {
+      startSection(heading[2] ?? '', heading[1]?.length ?? 1)
+      continue
+    }
+    const boldHeading = BOLD_HEADING.exec(trimmed)
+    if (boldHeading) {
+      // Bold pseudo-headings sit below any real heading level
+      startSection(boldHeading[1] ?? '', 6)
+      continue
+    }
+
+    const listItem = LIST_ITEM.exec(line)
+    if (listItem) {
+      const content = listItem[2]?.trim() ?? ''
+      if (collectingNewContributors) {
+        newContributors.push(...extractMentions(content))
+        continue
+      }
+
+      const item: RawItem = {
+        indent: (listItem[1] ?? '').replace(/\t/g, '    ').length,
+        raw: content,
+        children: [],
+      }
+      while (stack.length > 0 && (stack[stack.length - 1]?.indent ?? 0) >= item.indent) {
+        stack.pop()
+      }
+      const parent = stack[stack.length - 1]
+      if (parent) {
+        parent.children.push(item)
+      } else {
+        current.rawItems.push(item)
+      }
+      stack.push(item)
+      continue
+    }
+
+    // Indented text continues the open list item, anything else is a paragraph
+    const open = stack[stack.length - 1]
+    if (open && /^\s/.test(line)) {
+      open.raw = `${open.raw} ${trimmed}`
+      continue
+    }
+    stack = []
+    if (!collectingNewContributors) {
+      current.paragraphs.push(trimmed.replace(/^>\s?/, ''))
+    }
+  }
+  sections.push(current)
+
+  const parsedSections: ReleaseNoteSection[] = sections
+    .filter(section => !(section.heading && isNewContributorsHeading(section.heading)))
+    .filter(
+      section => section.heading !== null || section.rawItems.length || section.paragraphs.length
+    )
+    .map(({ heading, level, category, rawItems, paragraphs }) => ({
+      heading,
+      level,
+      category,
+      items: rawItems.map(item => parseItem(item, category)),
+      paragraphs,
+    }))
+
+  const categories: Record<ReleaseNoteCategory, ReleaseNoteItem[]> = {
+    features: [],
+    bugFixes: [],
+    improvements: [],
+    breaking: [],
+    other: [],
+  }
+  const contributors = new Set<string>()
+  const collectAuthors = (item: ReleaseNoteItem) => {
+    item.authors.forEach(author => contributors.add(author))
+    item.children.forEach(collectAuthors)
+  }
+  for (const section of parsedSections) {
+    for (const item of section.items) {
+      categories[item.category].push(item)
+      collectAuthors(item)
+    }
+  }
+
+  return {
+    sections: parsedSections,
+    categories,
+    contributors: [...contributors],
+    newContributors: [...new Set(newContributors)],
+    fullChangelogUrl,
+  }
+}
+
+/**
+ * Parse a release body, with flat per-category text lists alongside the tree
+ */
+export const parseReleaseNotes = (body: string): ParsedReleaseNotes => {
+  const document = parseReleaseNotesDocument(body)
+  const texts = (category: ReleaseNoteCategory) =>
+    document.categories[category].map(item => item.text)
+
+  return {
+    features: texts('features'),
+    bugFixes: texts('bugFixes'),
+    improvements: texts('improvements'),
+    breaking: texts('breaking'),
+    other: texts('other'),
+    document,
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Release verification
+ * Reads the checksums and signatures a release publishes next to its
+ * installers (SHA256SUMS manifests, per-file `.sha256` files, `.sig`/`.asc`
+ * signatures) and builds the commands users run to check a download. The
+ * snapshot script records the hashes; the site only reads them.
+ */
+
+import type { ChangelogRelease } from '@/types/changelog'
+import type { InstallerPlatform, ReleaseAsset, VerificationPatterns } from '@/types/download'
+
+const SHA256 = /^[a-f0-9]{64}$/i
+
+// `<hash>  <file>` (sha256sum, `*` marks binary mode) and `SHA256 (<file>) = <hash>` (shasum --tag)
+const GNU_LINE = /^([a-f0-9]{64})\s+\*?(.+)$/i
+const BSD_LINE = /^SHA256 \((.+)\) = ([a-f0-9]{64})$/i
+
+const baseName = (path: string): string => path.trim().replace(/^.*[/\\]/, '')
+
+/**
+ * Hashes listed in a checksum file, by file name. A file holding a bare hash
+ * (e.g. `EchoNote.exe.sha256`) is attributed to `fileName`.
+ */
+export const parseChecksums = (text: string, fileName?: string): Record<string, string> => {
+  const hashes: Record<string, string> = {}
+
+  for (const line of text.split(/\r?\n/).map(line => line.trim())) {
+    const gnu = GNU_LINE.exec(line)
+    const bsd = BSD_LINE.exec(line)
+    if (gnu?.[1] && gnu[2]) {
+      hashes[baseName(gnu[2])] = gnu[1].toLowerCase()
+    } else if (bsd?.[1] && bsd[2]) {
+      hashes[baseName(bsd[1])] = bsd[2].toLowerCase()
+    } else if (fileName && SHA256.test(line)) {
+      hashes[fileName] = line.toLowerCase()
+    }
+  }
+
+  return hashes
+}
+
+/**
+ * The SHA-256 in a GitHub asset digest (`sha256:<hex>`), if that is what it holds
+ */
+export const digestToSha256 = (digest: string | null | undefined): string | null => {
+  const [algorithm, hash] = digest?.split(':') ?? []
+  return algorithm === 'sha256' && hash && SHA256.test(hash) ? hash.toLowerCase() : null
+}
+
+/**
+ * Checksum files of a release, with the asset each per-file checksum belongs to
+ */
+export const findChecksumAssets = <T extends { name: string }>(
+  assets: T[],
+  patterns: VerificationPatterns
+): { asset: T; fileName?: string }[] =>
+  assets
+    .filter(asset => patterns.checksums.test(asset.name) && !patterns.signatures.test(asset.name))
+    .map(asset => ({
+      asset,
+      fileName: /\.sha256$/i.test(asset.name) ? asset.name.slice(0, -'.sha256'.length) : undefined,
+    }))
+
+/**
+ * The detached signature published for an asset, e.g. `EchoNote.dmg.asc`
+ */
+export const findSignatureAsset = <T extends { name: string }>(
+  assetName: string,
+  assets: T[],
+  patterns: VerificationPatterns
+): T | undefined =>
+  assets.find(
+    asset =>
+      patterns.signatures.test(asset.name) &&
+      asset.name.replace(patterns.signatures, '') === assetName
+  )
+
+/**
+ * Attach published hashes and sibling signatures to the assets of a release.
+ * Hashes already on an asset win; they were recorded from the release itself.
+ */
+export const verifyAssets = (
+  assets: ReleaseAsset[],
+  hashes: Record<string, string>,
+  patterns: VerificationPatterns
+): ReleaseAsset[] =>
+  assets.map(asset => {
+    const sha256 = asset.sha256 ?? hashes[asset.name]
+    const signatureUrl = asset.signatureUrl ?? findSignatureAsset(asset.name, assets, patterns)?.url
+    return {
+      ...asset,
+      ...(sha256 && { sha256 }),
+      ...(signatureUrl && { signatureUrl }),
+    }
+  })
+
+/**
+ * Record hashes and signatures on the assets of a changelog release
+ */
+export const applyVerification = (
+  release: ChangelogRelease,
+  hashes: Record<string, string>,
+  patterns: VerificationPatterns
+): ChangelogRelease => {
+  const verified = verifyAssets(
+    release.assets.map(asset => ({
+      name: asset.name,
+      url: asset.downloadUrl,
+      size: asset.size,
+      downloadCount: asset.downloadCount,
+      sha256: asset.sha256,
+      signatureUrl: asset.signatureUrl,
+    })),
+    hashes,
+    patterns
+  )
+
+  return {
+    ...release,
+    assets: release.assets.map((asset, index) => {
+      const { sha256, signatureUrl } = verified[index] ?? {}
+      return { ...asset, ...(sha256 && { sha256 }), ...(signatureUrl && { signatureUrl }) }
+    }),
+  }
+}
+
+/**
+ * Copy-ready commands that check a downloaded asset: against its published
+ * hash when there is one, otherwise printing the hash to compare by hand
+ */
+export const getVerificationCommands = (
+  platform: InstallerPlatform,
+  asset: Pick<ReleaseAsset, 'name' | 'sha256' | 'signatureUrl'>
+): { checksum: string; signature: string | null } => {
+  const file = asset.name
+  const hash = asset.sha256
+
+  const checksum = {
+    windows: hash
+      ? `# Prints True when the download matches the published SHA-256
+(Get-FileHash .\\${file} -Algorithm SHA256).Hash -eq '${hash}'`
+      : `# Compare the output with the SHA-256 published with the release
+Get-FileHash .\\${file} -Algorithm SHA256`,
+    macos: hash
+      ? `# Prints OK when the download matches the published SHA-256
+echo "${hash}  ${file}" | shasum -a 256 --check`
+      : `# Compare the output with the SHA-256 published with the release
+shasum -a 256 ${file}`,
+    linux: hash
+      ? `# Prints OK when the download matches the published SHA-256
+echo "${hash}  ${file}" | sha256sum --check`
+      : `# Compare the output with the SHA-256 published with the release
+sha256sum ${file}`,
+  }[platform]
+
+  const signatureFile = asset.signatureUrl ? baseName(asset.signatureUrl) : null
+  // Windows commands run in PowerShell, where curl may be an alias with other options
+  const download =
+    platform === 'windows'
+      ? `Invoke-WebRequest -Uri ${asset.signatureUrl} -OutFile ${signatureFile}`
+      : `curl -L -o ${signatureFile} ${asset.signatureUrl}`
+  const signature = signatureFile
+    ? `# Download the signature and check it with GnuPG
+${download}
+gpg --verify ${signatureFile} ${file}`
+    : null
+
+  return { checksum, signature }
+}
@@ -0,0 +1,136 @@
+/**
+ * System requirements check
+ * Compares what the browser can tell about the device (memory, CPU cores,
+ * storage quota, microphones, operating system) with the numeric minimums in
+ * `APP_CONFIG.systemRequirements`. Browsers report rough or capped values and
+ * some not at all, so a check only warns on a clear shortfall and reports
+ * `unknown` otherwise. The readers take the browser objects they query as
+ * arguments, so tests can stand in for them.
+ */
+
+import type {
+  DeviceCapabilities,
+  PlatformRequirements,
+  RequirementCheck,
+  RequirementStatus,
+} from '@/types/platform'
+import { checkSystemRequirements, formatSystemName } from '@/utils/platformDetection'
+
+// The parts of `navigator` the check reads
+export interface DeviceNavigator {
+  deviceMemory?: number
+  hardwareConcurrency?: number
+  storage?: { estimate?: () => Promise<{ quota?: number }> }
+}
+
+export interface MediaDevicesLike {
+  getUserMedia: (constraints: { audio: boolean }) => Promise<{
+    getTracks: () => { stop: () => void }[]
+  }>
+  enumerateDevices: () => Promise<{ kind: string }[]>
+}
+
+const BYTES_PER_MB = 1024 * 1024
+
+const atLeast = (value: number | undefined, minimum: number): RequirementStatus =>
+  value === undefined ? 'unknown' : value >= minimum ? 'pass' : 'warn'
+
+/**
+ * Pass, warn or unknown for each requirement of a platform
+ */
+export const evaluateRequirements = (
+  requirements: PlatformRequirements,
+  device: DeviceCapabilities
+): RequirementCheck[] => {
+  const { system } = device
+  const issues = system ? checkSystemRequirements(system, requirements.os) : []
+  const hasIssue = (kind: string) => issues.some(issue => issue.kind === kind)
+
+  const minimumVersion =
+    system?.platform === 'linux'
+      ? system.distro && requirements.os.distroVersions?.[system.distro]
+      : requirements.os.minimumVersion
+
+  const checks: RequirementCheck[] = [
+    {
+      id: 'os',
+      status: hasIssue('osVersion')
+        ? 'warn'
+        : minimumVersion && system?.osVersion
+          ? 'pass'
+          : 'unknown',
+      detected: system ? formatSystemName(system) : null,
+    },
+    {
+      id: 'architecture',
+      status: hasIssue('architecture') ? 'warn' : system?.architecture ? 'pass' : 'unknown',
+      detected: system?.architecture ?? null,
+    },
+    {
+      id: 'memory',
+      status: atLeast(device.memoryGB, requirements.memory.minimumGB),
+      detected: device.memoryGB ?? null,
+    },
+    {
+      id: 'cpu',
+      status: atLeast(device.cores, requirements.cpu.minimumCores),
+      detected: device.cores ?? null,
+    },
+    {
+      id: 'storage',
+      // Browsers cap the quota well below free space, so a small quota proves nothing
+      status:
+        device.storageQuotaMB !== undefined &&
+        device.storageQuotaMB >= requirements.storage.minimumMB
+          ? 'pass'
+          : 'unknown',
+      detected: device.storageQuotaMB ?? null,
+    },
+  ]
+
+  if (requirements.microphone) {
+    checks.push({
+      id: 'microphone',
+      status: atLeast(device.microphones, 1),
+      detected: device.microphones ?? null,
+    })
+  }
+
+  return checks
+}
+
+/**
+ * Memory, cores and storage quota, as far as the browser reports them
+ */
+export const readDeviceCapabilities = async (
+  nav: DeviceNavigator
+): Promise<Omit<DeviceCapabilities, 'system' | 'microphones'>> => {
+  const estimate = await nav.storage?.estimate?.().catch(() => undefined)
+
+  return {
+    memoryGB: nav.deviceMemory,
+    // 0 means the browser hides the count
+    cores: nav.hardwareConcurrency || undefined,
+    storageQuotaMB:
+      estimate?.quota !== undefined ? Math.floor(estimate.quota / BYTES_PER_MB) : undefined,
+  }
+}
+
+/**
+ * Number of microphones, or null when the visitor refuses access or the devices
+ * cannot be listed. Opening a stream is what asks for consent; until then
+ * browsers hide or merge devices.
+ */
+export const countMicrophones = async (mediaDevices: MediaDevicesLike): Promise<number | null> => {
+  try {
+    const stream = await mediaDevices.getUserMedia({ audio: true })
+    stream.getTracks().forEach(track => track.stop())
+
+    const devices = await mediaDevices.enumerateDevices()
+    return devices.filter(device => device.kind === 'audioinput').length
+  } catch (error) {
+    // No input device at all is an answer; anything else is a refusal
+    if (error instanceof Error && error.name === 'NotFoundError') return 0
+    return null
+  }
+}
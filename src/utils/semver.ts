@@ -0,0 +1,87 @@
+/**
+ * Semantic versioning
+ * Parses release versions ("v1.3.0-beta.2+build.5") and orders them by semver
+ * precedence, so releases are not ordered by their position in a list. The
+ * release feed script loads it to order feed entries the same way.
+ */
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  // Dot-separated prerelease identifiers, e.g. ['beta', 2]
+  prerelease: (string | number)[]
+  build: string[]
+  raw: string
+}
+
+// A leading "v" and missing minor/patch ("v2", "1.3") are accepted, as in release tags
+const SEMVER =
+  /^\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?\s*$/i
+
+export const parseVersion = (version: string): SemVer | null => {
+  const match = SEMVER.exec(version)
+  if (!match) return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    build: match[5] ? match[5].split('.') : [],
+    raw: version,
+  }
+}
+
+const compareIdentifiers = (a: string | number, b: string | number): number => {
+  // Numeric identifiers have lower precedence than alphanumeric ones
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'number') return -1
+  if (typeof b === 'number') return 1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+const comparePrerelease = (a: SemVer['prerelease'], b: SemVer['prerelease']): number => {
+  // A release without a prerelease tag ranks above any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i]
+    const right = b[i]
+    if (left === undefined) return -1
+    if (right === undefined) return 1
+    const result = compareIdentifiers(left, right)
+    if (result !== 0) return result
+  }
+  return 0
+}
+
+/**
+ * Semver precedence: negative when `a` is older than `b`. Build metadata is
+ * ignored; versions that do not parse sort below every valid one.
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a)
+  const right = parseVersion(b)
+  if (!left || !right) {
+    if (left) return 1
+    if (right) return -1
+    return a.localeCompare(b, undefined, { numeric: true })
+  }
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  )
+}
+
+export const isPrereleaseVersion = (version: string): boolean =>
+  (parseVersion(version)?.prerelease.length ?? 0) > 0
+
+/**
+ * Sort items carrying a `version`, newest first
+ */
+export const sortByVersionDesc = <T extends { version: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => compareVersions(b.version, a.version))
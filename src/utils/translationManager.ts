@@ -6,11 +6,20 @@
 
 import type { MessageSchema } from '@/i18n'
 import { APP_CONFIG } from '@/config/app'
+import glossaryData from '@/data/glossary.json'
+import { checkTerminology, loadGlossary } from '@/utils/glossary'
 
 // Core interfaces
 export interface TranslationIssue {
   path: string
-  type: 'missing' | 'empty' | 'inconsistent' | 'cultural' | 'layout' | 'terminology'
+  type:
+    | 'missing'
+    | 'empty'
+    | 'untranslated'
+    | 'inconsistent'
+    | 'cultural'
+    | 'layout'
+    | 'terminology'
   severity: 'low' | 'medium' | 'high'
   message: string
   suggestion?: string
@@ -28,19 +37,81 @@ export interface TranslationReport {
   recommendations: string[]
 }
 
-// Translation glossary for consistency
-export const TRANSLATION_GLOSSARY = {
-  'voice transcription': {
-    'zh-CN': 'voice transcription',
-    'zh-TW': 'voice transcription',
-    fr: 'transcription vocale',
-  },
-  'speech recognition': {
-    'zh-CN': 'speech recognition',
-    'zh-TW': 'speech recognition',
-    fr: 'reconnaissance vocale',
+// Translation glossary for consistency, maintained in src/data/glossary.json
+export const TRANSLATION_GLOSSARY = loadGlossary(glossaryData)
+
+// How a locale differs from English, for the quality checks
+export interface LocaleConventions {
+  // Typical length of a translation relative to the English text
+  expansionFactor: number
+  // Words spelled the same as in English, which are not left untranslated
+  cognates?: string[]
+  punctuation: { pattern: RegExp; message: string; suggestion: string }[]
+}
+
+// Names kept in English in every locale
+export const UNTRANSLATED_TERMS = [
+  'EchoNote',
+  'GitHub Issues',
+  'GitHub',
+  'Windows',
+  'macOS',
+  'Linux',
+  'Twitter',
+  'Discord',
+  'x64',
+  'ARM64',
+]
+
+const CHINESE_PUNCTUATION = {
+  pattern: /[\u3400-\u9fff][,.:;!?()]|[,:;!?(][\u3400-\u9fff]/,
+  message: 'ASCII punctuation next to Chinese characters',
+  suggestion: 'Use full-width punctuation: ，。：；！？（）',
+}
+
+export const LOCALE_CONVENTIONS: Record<string, LocaleConventions> = {
+  fr: {
+    expansionFactor: 1.3,
+    cognates: ['Architecture', 'Audio', 'Version', 'Forks'],
+    punctuation: [
+      {
+        pattern: /[^\s\u00a0\u202f][:;!?](?=\s|$)/,
+        message: 'No space before a colon, semicolon, exclamation or question mark',
+        suggestion: 'Put a non-breaking space (U+00A0) before : ; ! ?',
+      },
+      {
+        pattern: /«[^\s\u00a0\u202f]|[^\s\u00a0\u202f]»/,
+        message: 'No space inside guillemets',
+        suggestion: 'Write « text » with non-breaking spaces inside the guillemets',
+      },
+    ],
   },
-} as const
+  'zh-CN': { expansionFactor: 0.6, punctuation: [CHINESE_PUNCTUATION] },
+  'zh-TW': { expansionFactor: 0.6, punctuation: [CHINESE_PUNCTUATION] },
+}
+
+// A translation this much longer than expected may overflow its layout
+const LAYOUT_TOLERANCE = 1.5
+// Strings shorter than this vary too much in length to judge
+const LAYOUT_MIN_EXCESS = 10
+
+const PLACEHOLDER_PATTERN = /\{\s*([\w.]+)\s*\}/g
+const MARKUP_PATTERN = /<\/?[a-z][\w-]*|\*\*|__|`|\]\(/gi
+
+// Sorted tokens, so two strings can be compared regardless of word order
+const collectTokens = (text: string, pattern: RegExp, group = 0): string[] =>
+  [...text.matchAll(pattern)].map(match => (match[group] ?? '').toLowerCase()).sort()
+
+// Tokens in `a` that `b` lacks, counting repeats
+const tokenDifference = (a: string[], b: string[]): string[] => {
+  const remaining = [...b]
+  return a.filter(token => {
+    const index = remaining.indexOf(token)
+    if (index === -1) return true
+    remaining.splice(index, 1)
+    return false
+  })
+}
 
 /**
  * Translation Manager Class
@@ -82,10 +153,25 @@ export class TranslationManager {
     // Check completeness
     const completeness = this.checkCompleteness(reference, translation, '', issues, missingKeys)
 
-    // Simple checks for other metrics
-    const consistency = 95 // Simplified for now
-    const culturalAdaptation = 90 // Simplified for now
-    const layoutCompatibility = 85 // Simplified for now
+    // Check each translated string against its English source
+    const pairs = this.collectPairs(reference, translation)
+    const qualityIssues = [
+      ...pairs.flatMap(([path, source, target]) => this.checkQuality(path, source, target, locale)),
+      ...checkTerminology(TRANSLATION_GLOSSARY, translation, locale, reference),
+    ]
+    issues.push(...qualityIssues)
+
+    // Share of strings without issues of the given types
+    const scoreFor = (...types: TranslationIssue['type'][]) => {
+      if (pairs.length === 0) return 100
+      const failing = new Set(
+        qualityIssues.filter(issue => types.includes(issue.type)).map(issue => issue.path)
+      )
+      return Math.round(((pairs.length - failing.size) / pairs.length) * 100)
+    }
+    const consistency = scoreFor('inconsistent', 'terminology')
+    const culturalAdaptation = scoreFor('untranslated', 'cultural')
+    const layoutCompatibility = scoreFor('layout')
 
     // Calculate overall score
     const overallScore = Math.round(
@@ -100,6 +186,20 @@ export class TranslationManager {
     if (completeness < 95) {
       recommendations.push('Complete missing translations to improve user experience')
     }
+    const { reportThreshold } = APP_CONFIG.translation.validation
+    if (consistency < reportThreshold) {
+      recommendations.push(
+        'Keep placeholders and markup identical to the English source and use glossary terms'
+      )
+    }
+    if (culturalAdaptation < reportThreshold) {
+      recommendations.push(
+        `Translate strings left in English and follow ${locale} punctuation conventions`
+      )
+    }
+    if (layoutCompatibility < reportThreshold) {
+      recommendations.push('Shorten translations that are much longer than the English text')
+    }
 
     return {
       locale,
@@ -167,6 +267,141 @@ export class TranslationManager {
     return totalKeys > 0 ? Math.round((translatedKeys / totalKeys) * 100) : 100
   }
 
+  /**
+   * Every string present in both the reference and the translation, as [path, source, target]
+   */
+  private collectPairs(
+    reference: Record<string, unknown>,
+    translation: Record<string, unknown>,
+    path = ''
+  ): [string, string, string][] {
+    const pairs: [string, string, string][] = []
+
+    for (const key in reference) {
+      const currentPath = path ? `${path}.${key}` : key
+      const source = reference[key]
+      const target = translation[key]
+
+      if (typeof source === 'object' && source !== null) {
+        if (typeof target === 'object' && target !== null) {
+          pairs.push(
+            ...this.collectPairs(
+              source as Record<string, unknown>,
+              target as Record<string, unknown>,
+              currentPath
+            )
+          )
+        }
+      } else if (typeof source === 'string' && typeof target === 'string' && target.trim()) {
+        pairs.push([currentPath, source, target])
+      }
+    }
+
+    return pairs
+  }
+
+  /**
+   * Placeholder and markup parity, length, untranslated text and punctuation of one string
+   */
+  private checkQuality(
+    path: string,
+    source: string,
+    target: string,
+    locale: string
+  ): TranslationIssue[] {
+    const issues: TranslationIssue[] = []
+    const conventions = LOCALE_CONVENTIONS[locale]
+
+    // Placeholders the translation drops render nothing; ones it adds render empty.
+    // Plural forms may repeat a placeholder, so only the names are compared.
+    const sourcePlaceholders = [...new Set(collectTokens(source, PLACEHOLDER_PATTERN, 1))]
+    const targetPlaceholders = [...new Set(collectTokens(target, PLACEHOLDER_PATTERN, 1))]
+    const missingPlaceholders = tokenDifference(sourcePlaceholders, targetPlaceholders)
+    const extraPlaceholders = tokenDifference(targetPlaceholders, sourcePlaceholders)
+    if (missingPlaceholders.length > 0 || extraPlaceholders.length > 0) {
+      issues.push({
+        path,
+        type: 'inconsistent',
+        severity: 'high',
+        message: `Placeholders differ from English: ${[
+          ...missingPlaceholders.map(name => `missing {${name}}`),
+          ...extraPlaceholders.map(name => `unexpected {${name}}`),
+        ].join(', ')}`,
+        suggestion: `Use exactly these placeholders: ${sourcePlaceholders.map(name => `{${name}}`).join(' ') || 'none'}`,
+      })
+    }
+
+    const sourceMarkup = collectTokens(source, MARKUP_PATTERN)
+    const targetMarkup = collectTokens(target, MARKUP_PATTERN)
+    if (sourceMarkup.join() !== targetMarkup.join()) {
+      issues.push({
+        path,
+        type: 'inconsistent',
+        severity: 'medium',
+        message: 'HTML or Markdown markup differs from English',
+        suggestion: 'Keep the same tags and Markdown around the translated text',
+      })
+    }
+
+    if (target === source && this.hasTranslatableText(source, conventions?.cognates)) {
+      issues.push({
+        path,
+        type: 'untranslated',
+        severity: 'medium',
+        message: `Identical to English: "${source}"`,
+      })
+    }
+
+    if (conventions) {
+      const expected = source.length * conventions.expansionFactor
+      if (
+        target.length > expected * LAYOUT_TOLERANCE &&
+        target.length - expected >= LAYOUT_MIN_EXCESS
+      ) {
+        issues.push({
+          path,
+          type: 'layout',
+          severity: target.length > expected * 2 ? 'medium' : 'low',
+          message: `${target.length} characters where about ${Math.round(expected)} are expected`,
+          suggestion: 'Shorten the translation so it fits where the English text does',
+        })
+      }
+
+      for (const { pattern, message, suggestion } of conventions.punctuation) {
+        if (pattern.test(target)) {
+          issues.push({ path, type: 'cultural', severity: 'low', message, suggestion })
+        }
+      }
+    }
+
+    const edgeSpace = /^\s|\s$/
+    if (
+      edgeSpace.test(target) !== edgeSpace.test(source) ||
+      (/ {2}/.test(target) && !/ {2}/.test(source))
+    ) {
+      issues.push({
+        path,
+        type: 'cultural',
+        severity: 'low',
+        message: 'Leading, trailing or repeated spaces differ from English',
+        suggestion: 'Trim the translation and use single spaces',
+      })
+    }
+
+    return issues
+  }
+
+  /**
+   * Whether a string has words to translate once names and placeholders are removed
+   */
+  private hasTranslatableText(text: string, cognates: string[] = []): boolean {
+    const remaining = [...UNTRANSLATED_TERMS, ...cognates].reduce(
+      (rest, term) => rest.split(term).join(' '),
+      text.replace(PLACEHOLDER_PATTERN, ' ').replace(/\S+@\S+|https?:\/\/\S+/g, ' ')
+    )
+    return /\p{L}{3,}/u.test(remaining)
+  }
+
   /**
    * Get fallback translation for missing keys
    */
@@ -228,7 +463,17 @@ export const getFallbackTranslation = (
   currentMessages: any
 ) => translationManager.getFallbackTranslation(key, fallbackMessages, currentMessages)
 
-export const checkTerminologyConsistency = (_translations: Record<string, any>) => {
-  const inconsistencies: Record<string, string[]> = {}
-  return inconsistencies
+/**
+ * Glossary violations in every locale, the English source included
+ */
+export const checkTerminologyConsistency = (
+  translations: Record<string, unknown>
+): Record<string, TranslationIssue[]> => {
+  const reference = translations[APP_CONFIG.translation.fallbackLocale]
+  return Object.fromEntries(
+    Object.entries(translations).map(([locale, messages]) => [
+      locale,
+      checkTerminology(TRANSLATION_GLOSSARY, messages, locale, reference),
+    ])
+  )
 }
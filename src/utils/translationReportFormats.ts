@@ -0,0 +1,148 @@
+/**
+ * Translation report formats
+ * Renders TranslationManager reports as a console table, JSON, JUnit XML or
+ * Markdown for scripts/translation-report.js, so CI can gate translation
+ * changes and translators can read the results.
+ */
+
+import type { TranslationIssue, TranslationReport } from '@/utils/translationManager'
+import { escapeXml } from '@/utils/xml'
+
+export type TranslationReportFormat = 'table' | 'json' | 'junit' | 'markdown'
+
+export interface TranslationReportSummary {
+  threshold: number
+  reports: TranslationReport[]
+}
+
+type ScoreKey =
+  | 'completeness'
+  | 'consistency'
+  | 'culturalAdaptation'
+  | 'layoutCompatibility'
+  | 'overallScore'
+
+// Scores shown per locale, in column order
+const SCORE_COLUMNS: [ScoreKey, string][] = [
+  ['completeness', 'Complete'],
+  ['consistency', 'Consistent'],
+  ['culturalAdaptation', 'Cultural'],
+  ['layoutCompatibility', 'Layout'],
+  ['overallScore', 'Overall'],
+]
+
+/**
+ * Locales whose overall score is below the threshold
+ */
+export const findFailingLocales = ({ reports, threshold }: TranslationReportSummary): string[] =>
+  reports.filter(report => report.overallScore < threshold).map(report => report.locale)
+
+const countBySeverity = (issues: TranslationIssue[], severity: TranslationIssue['severity']) =>
+  issues.filter(issue => issue.severity === severity).length
+
+const escapeMarkdownCell = (value: string): string =>
+  value.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+
+const formatTable = ({ reports, threshold }: TranslationReportSummary): string => {
+  const header = ['Locale', ...SCORE_COLUMNS.map(([, label]) => label), 'Issues', 'Status']
+  const rows = reports.map(report => [
+    report.locale,
+    ...SCORE_COLUMNS.map(([key]) => `${report[key]}%`),
+    String(report.issues.length),
+    report.overallScore < threshold ? 'FAIL' : 'ok',
+  ])
+  const widths = header.map((cell, index) =>
+    Math.max(cell.length, ...rows.map(row => row[index]?.length ?? 0))
+  )
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, index) => cell.padEnd(widths[index] ?? 0))
+      .join('  ')
+      .trimEnd()
+
+  return [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n')
+}
+
+const formatJson = ({ reports, threshold }: TranslationReportSummary): string =>
+  JSON.stringify(
+    { threshold, failing: findFailingLocales({ reports, threshold }), reports },
+    null,
+    2
+  )
+
+// One test case per locale, failing below the threshold; issues go to system-out
+const formatJUnit = ({ reports, threshold }: TranslationReportSummary): string => {
+  const failures = findFailingLocales({ reports, threshold }).length
+  const cases = reports.map(report => {
+    const failure =
+      report.overallScore < threshold
+        ? `\n    <failure message="${escapeXml(
+            `Overall score ${report.overallScore}% is below ${threshold}%`
+          )}">${escapeXml(report.recommendations.join('\n'))}</failure>`
+        : ''
+    const output = report.issues
+      .map(issue => `[${issue.severity}] ${issue.type} ${issue.path}: ${issue.message}`)
+      .join('\n')
+    return `  <testcase classname="translations" name="${escapeXml(report.locale)}">${failure}
+    <system-out>${escapeXml(output)}</system-out>
+  </testcase>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuite name="translations" tests="${reports.length}" failures="${failures}">
+${cases.join('\n')}
+</testsuite>
+`
+}
+
+const formatMarkdown = ({ reports, threshold }: TranslationReportSummary): string => {
+  const header = `| Locale | ${SCORE_COLUMNS.map(([, label]) => label).join(' | ')} | Issues (high/medium/low) | Status |`
+  const divider = `|${' --- |'.repeat(SCORE_COLUMNS.length + 3)}`
+  const rows = reports.map(report => {
+    const scores = SCORE_COLUMNS.map(([key]) => `${report[key]}%`).join(' | ')
+    const issues = (['high', 'medium', 'low'] as const)
+      .map(severity => countBySeverity(report.issues, severity))
+      .join(' / ')
+    const status = report.overallScore < threshold ? '❌' : '✅'
+    return `| ${report.locale} | ${scores} | ${issues} | ${status} |`
+  })
+
+  const details = reports
+    .filter(report => report.issues.length > 0)
+    .map(report => {
+      const items = report.issues.map(
+        issue =>
+          `| ${issue.severity} | ${issue.type} | \`${issue.path}\` | ${escapeMarkdownCell(issue.message)} | ${escapeMarkdownCell(issue.suggestion ?? '')} |`
+      )
+      return `<details>
+<summary>${report.locale}: ${report.issues.length} issues</summary>
+
+| Severity | Type | Key | Issue | Suggestion |
+| --- | --- | --- | --- | --- |
+${items.join('\n')}
+
+</details>`
+    })
+
+  return [
+    '## Translation report',
+    '',
+    `Locales need an overall score of at least ${threshold}%.`,
+    '',
+    header,
+    divider,
+    ...rows,
+    ...(details.length > 0 ? ['', ...details] : []),
+    '',
+  ].join('\n')
+}
+
+export const TRANSLATION_REPORT_FORMATTERS: Record<
+  TranslationReportFormat,
+  (summary: TranslationReportSummary) => string
+> = {
+  table: formatTable,
+  json: formatJson,
+  junit: formatJUnit,
+  markdown: formatMarkdown,
+}
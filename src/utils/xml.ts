@@ -0,0 +1,16 @@
+/**
+ * XML helpers
+ * Shared by every module that writes an XML document, so they all escape text
+ * the same way.
+ */
+
+/**
+ * Text escaped for use in XML element content and quoted attribute values
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
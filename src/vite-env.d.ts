@@ -10,6 +10,8 @@ declare module '*.vue' {
 interface ImportMetaEnv {
   readonly VITE_APP_TITLE: string
   readonly VITE_GITHUB_API_URL: string
+  readonly VITE_GITHUB_LIVE_REFRESH?: string
+  readonly VITE_GITHUB_FIXTURES?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,37 @@
+/**
+ * Synthetic GitHub responses for unit tests
+ * Hand-written, not recorded: fictional data in the format
+ * scripts/record-github-fixtures.js writes, so tests go through the same replay
+ * fetch as recordings. Real recordings belong in tests/fixtures/github/.
+ */
+
+import type { GitHubFixture, GitHubFixtureSet } from '@/utils/githubFixtures'
+
+const API_BASE = 'https://api.github.com'
+
+const json = (body: unknown): GitHubFixture => ({
+  status: 200,
+  headers: { 'content-type': 'application/json; charset=utf-8' },
+  body,
+})
+
+export interface RepositoryResponses {
+  repo: unknown
+  contributors?: unknown[]
+  releases?: unknown[]
+}
+
+/**
+ * The responses useGitHubApi requests for a repository's stats
+ */
+export const repositoryFixtures = (
+  repository: string,
+  { repo, contributors = [], releases = [] }: RepositoryResponses
+): GitHubFixtureSet => ({
+  recordedAt: '2025-01-01T00:00:00Z',
+  responses: {
+    [`${API_BASE}/repos/${repository}`]: json(repo),
+    [`${API_BASE}/repos/${repository}/contributors?per_page=100`]: json(contributors),
+    [`${API_BASE}/repos/${repository}/releases?per_page=100`]: json(releases),
+  },
+})
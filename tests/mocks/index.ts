@@ -4,6 +4,7 @@
  */
 import { vi } from 'vitest'
 import { ref } from 'vue'
+import type { GitHubResult, GitHubStats } from '@/types/github'
 
 // 统一的i18n Mock配置
 export const createI18nMock = () => {
@@ -15,6 +16,7 @@ export const createI18nMock = () => {
     locale: mockLocale,
     t: mockT,
     availableLocales: mockAvailableLocales,
+    getLocaleMessage: vi.fn(() => ({})),
   }
 }
 
@@ -41,6 +43,9 @@ export const createUseI18nMock = () => {
     currentLanguageInfo: mockCurrentLanguageInfo,
     supportedLanguages: mockSupportedLanguages,
     changeLanguage: mockChangeLanguage,
+    prefetchLanguage: vi.fn(),
+    loadingLanguage: ref<string | null>(null),
+    isLoadingLanguage: ref(false),
     getBrowserLanguage: vi.fn(() => 'en'),
     getLanguageName: vi.fn((code: string) => code),
     isRTL: ref(false),
@@ -50,7 +55,7 @@ export const createUseI18nMock = () => {
 
 // 统一的GitHub API Mock
 export const createGitHubApiMock = () => {
-  const mockStats = ref({
+  const mockStats = ref<GitHubStats | null>({
     stars: 150,
     forks: 25,
     contributors: 8,
@@ -66,6 +71,10 @@ export const createGitHubApiMock = () => {
   return {
     stats: mockStats,
     isLoading: mockIsLoading,
+    isRevalidating: ref(false),
+    statsResult: ref<GitHubResult<GitHubStats> | null>(null),
+    pausedUntil: ref<number | null>(null),
+    rateLimit: ref({ limit: null, remaining: null, resetAt: null, updatedAt: null }),
     error: mockError,
     fetchStats: mockFetchStats,
     refreshStats: mockRefreshStats,
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
+import { createRouter, createMemoryHistory } from 'vue-router'
+import ChangelogView from '@/views/ChangelogView.vue'
+import { TEST_IDS } from '@/constants/testIds'
+import { createUseI18nMock } from '../mocks'
+
+const mockUseI18n = createUseI18nMock()
+
+vi.mock('@/composables/useI18n', () => ({
+  useI18n: () => mockUseI18n,
+}))
+
+vi.mock('@/data/changelog.json', () => ({
+  default: {
+    lastUpdated: '2025-11-02T00:00:00Z',
+    // Deliberately out of order - releases are sorted by semver
+    releases: [
+      {
+        version: 'v1.1.0',
+        date: '2025-10-01T00:00:00Z',
+        title: 'Multi-language support',
+        body: '### Features\n- French interface\n\n### Bug Fixes\n- Fixed crash on startup',
+        url: 'https://example.com/v1.1.0',
+        prerelease: false,
+        assets: [],
+      },
+      {
+        version: 'v2.0.0-beta.1',
+        date: '2025-12-01T00:00:00Z',
+        title: 'Plugin system preview',
+        body: '### Breaking Changes\n- Settings moved to a new file\n\n### Features\n- Plugin API',
+        url: 'https://example.com/v2.0.0-beta.1',
+        prerelease: true,
+        assets: [],
+      },
+      {
+        version: 'v1.2.0',
+        date: '2025-11-01T00:00:00Z',
+        title: 'Calendar integration',
+        body: '### Features\n- Google Calendar sync\n\n### Bug Fixes\n- Fixed audio capture',
+        url: 'https://example.com/v1.2.0',
+        prerelease: false,
+        assets: [{ name: 'app.dmg', downloadUrl: '', downloadCount: 42, size: 1 }],
+      },
+    ],
+  },
+}))
+
+const createTestRouter = () =>
+  createRouter({
+    history: createMemoryHistory(),
+    routes: [
+      { path: '/changelog', name: 'changelog', component: ChangelogView },
+      {
+        path: '/changelog/:version',
+        name: 'changelog-version',
+        component: ChangelogView,
+        props: true,
+      },
+    ],
+  })
+
+const mountAt = async (path: string) => {
+  const router = createTestRouter()
+  await router.push(path)
+  await router.isReady()
+
+  const wrapper = mount(ChangelogView, {
+    props: router.currentRoute.value.params,
+    global: { plugins: [router] },
+  })
+  return { wrapper, router }
+}
+
+const releaseVersions = (wrapper: Awaited<ReturnType<typeof mountAt>>['wrapper']) =>
+  wrapper
+    .findAll(`[data-testid="${TEST_IDS.CHANGELOG_RELEASE}"]`)
+    .map(release => release.attributes('id'))
+
+describe('ChangelogView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lists every release', async () => {
+    const { wrapper } = await mountAt('/changelog')
+
+    expect(releaseVersions(wrapper)).toEqual(['v2.0.0-beta.1', 'v1.2.0', 'v1.1.0'])
+  })
+
+  it('filters by release channel and records it in the URL', async () => {
+    const { wrapper, router } = await mountAt('/changelog')
+
+    const stable = wrapper
+      .findAll(`[data-testid="${TEST_IDS.CHANGELOG_FILTER}"]`)
+      .find(button => button.text() === 'changelog.filters.stable')
+    await stable?.trigger('click')
+    await flushPromises()
+
+    expect(releaseVersions(wrapper)).toEqual(['v1.2.0', 'v1.1.0'])
+    expect(router.currentRoute.value.query.channel).toBe('stable')
+  })
+
+  it('restores filters from the query string', async () => {
+    const { wrapper } = await mountAt('/changelog?channel=prerelease')
+
+    expect(releaseVersions(wrapper)).toEqual(['v2.0.0-beta.1'])
+  })
+
+  it('searches release notes', async () => {
+    const { wrapper } = await mountAt('/changelog')
+
+    await wrapper.find(`[data-testid="${TEST_IDS.CHANGELOG_SEARCH}"]`).setValue('calendar')
+
+    expect(releaseVersions(wrapper)).toEqual(['v1.2.0'])
+  })
+
+  it('calls out breaking changes', async () => {
+    const { wrapper } = await mountAt('/changelog')
+
+    const callouts = wrapper.findAll(`[data-testid="${TEST_IDS.CHANGELOG_BREAKING}"]`)
+    expect(callouts).toHaveLength(1)
+    expect(callouts[0]?.text()).toContain('Settings moved to a new file')
+  })
+
+  it('shows a single release from its permalink, with or without the "v"', async () => {
+    const { wrapper } = await mountAt('/changelog/1.2.0')
+
+    expect(releaseVersions(wrapper)).toEqual(['v1.2.0'])
+    expect(wrapper.find(`[data-testid="${TEST_IDS.CHANGELOG_SEARCH}"]`).exists()).toBe(false)
+  })
+
+  it('reports unknown versions', async () => {
+    const { wrapper } = await mountAt('/changelog/v9.9.9')
+
+    expect(releaseVersions(wrapper)).toEqual([])
+    expect(wrapper.find('[role="status"]').text()).toBe('changelog.notFound')
+  })
+
+  describe('upgrade path', () => {
+    const upgradeText = (wrapper: Awaited<ReturnType<typeof mountAt>>['wrapper']) =>
+      wrapper.find(`[data-testid="${TEST_IDS.CHANGELOG_UPGRADE}"]`).text()
+
+    it('collects changes since the given version up to the latest stable release', async () => {
+      const { wrapper } = await mountAt('/changelog?from=1.1.0')
+
+      const text = upgradeText(wrapper)
+      expect(text).toContain('Google Calendar sync')
+      expect(text).toContain('Fixed audio capture')
+      // Already installed, and prereleases are left out of a stable upgrade
+      expect(text).not.toContain('French interface')
+      expect(text).not.toContain('Plugin API')
+      expect(
+        (
+          wrapper.find(`[data-testid="${TEST_IDS.CHANGELOG_UPGRADE_FROM}"]`)
+            .element as HTMLSelectElement
+        ).value
+      ).toBe('v1.1.0')
+    })
+
+    it('includes prereleases and breaking changes when upgrading to a prerelease', async () => {
+      const { wrapper } = await mountAt('/changelog?from=1.1.0&to=v2.0.0-beta.1')
+
+      const breaking = wrapper.find('[role="note"]')
+      expect(breaking.text()).toContain('Settings moved to a new file')
+      expect(upgradeText(wrapper)).toContain('Google Calendar sync')
+    })
+
+    it('uses the permalink version as the target', async () => {
+      const { wrapper } = await mountAt('/changelog/v1.1.0?from=1.0.0')
+
+      const text = upgradeText(wrapper)
+      expect(text).toContain('French interface')
+      expect(text).not.toContain('Google Calendar sync')
+    })
+
+    it('rejects invalid versions', async () => {
+      const { wrapper } = await mountAt('/changelog?from=latest')
+
+      expect(wrapper.find('[role="status"]').text()).toBe('changelog.upgrade.invalid')
+    })
+  })
+})
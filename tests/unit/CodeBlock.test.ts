@@ -199,6 +199,18 @@ describe('CodeBlock', () => {
     expect(wrapper.find('[aria-hidden="true"]').exists()).toBe(true)
   })
 
+  it('highlights PowerShell commands', async () => {
+    wrapper = mount(CodeBlock, {
+      props: {
+        code: 'Get-FileHash -Algorithm SHA256 EchoNote-Setup.exe',
+        language: 'powershell',
+      },
+    })
+    await nextTick()
+
+    expect(wrapper.find('code .token.function').text()).toBe('Get-FileHash')
+  })
+
   it('handles syntax highlighting errors gracefully', () => {
     // Mock Prism to return safe fallback
     global.Prism.highlight = vi.fn().mockImplementation((code: string) => {
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { mount } from '@vue/test-utils'
 import { nextTick } from 'vue'
 import HeroSection from '@/components/sections/HeroSection.vue'
+import { APP_CONFIG } from '@/config/app'
 import { createUseI18nMock, createGitHubApiMock } from '../mocks'
 
 // 使用统一的Mock配置
@@ -39,6 +40,7 @@ describe('HeroSection', () => {
     // 重置Mock状态
     mockGitHubApi.isLoading.value = false
     mockGitHubApi.error.value = null
+    mockGitHubApi.releases.value = []
     mockGitHubApi.stats.value = {
       stars: 150,
       forks: 25,
@@ -54,6 +56,7 @@ describe('HeroSection', () => {
       wrapper.unmount()
     }
     vi.useRealTimers()
+    vi.restoreAllMocks()
   })
 
   it('renders hero content correctly', () => {
@@ -237,10 +240,102 @@ describe('HeroSection', () => {
   it('uses default repository when not provided', () => {
     wrapper = mount(HeroSection)
 
-    const downloadButton = wrapper.findAll('a')[0]
+    const githubButton = wrapper.find('[data-testid="github-button"]')
+    expect(githubButton.attributes('href')).toBe(APP_CONFIG.github.repoUrl)
+  })
+
+  it('links the download button to the best installer for the platform', async () => {
+    const asset = (name: string) => ({
+      id: 1,
+      name,
+      size: 2 * 1024 * 1024,
+      download_count: 0,
+      browser_download_url: `https://github.com/test/repo/releases/download/v2.0.0/${name}`,
+    })
+    mockGitHubApi.releases.value = [
+      {
+        id: 1,
+        tag_name: 'v2.0.0',
+        name: 'v2.0.0',
+        body: '',
+        draft: false,
+        prerelease: false,
+        published_at: '2025-01-01T00:00:00Z',
+        html_url: 'https://github.com/test/repo/releases/tag/v2.0.0',
+        assets: [
+          asset('EchoNote-2.0.0.exe'),
+          asset('echonote_2.0.0_amd64.deb'),
+          asset('EchoNote-2.0.0-x86_64.AppImage'),
+        ],
+      },
+    ]
+
+    wrapper = mount(HeroSection, { props: { repository: 'test/repo' } })
+    await nextTick()
+
+    const downloadButton = wrapper.find('[data-testid="download-button"]')
     expect(downloadButton.attributes('href')).toBe(
-      'https://github.com/echonote/echonote/releases/latest'
+      'https://github.com/test/repo/releases/download/v2.0.0/EchoNote-2.0.0-x86_64.AppImage'
     )
+    expect(downloadButton.attributes('target')).toBeUndefined()
+
+    const options = wrapper.find('[data-testid="download-options"]')
+    expect(options.text()).toContain('EchoNote-2.0.0-x86_64.AppImage')
+    expect(options.text()).toContain('2 MB')
+    expect(options.findAll('li a').map(link => link.text())).toEqual(['echonote_2.0.0_amd64.deb'])
+  })
+
+  it('sends phones and unrecognised systems to the release page', async () => {
+    mockGitHubApi.releases.value = [
+      {
+        id: 1,
+        tag_name: 'v2.0.0',
+        name: 'v2.0.0',
+        body: '',
+        draft: false,
+        prerelease: false,
+        published_at: '2025-01-01T00:00:00Z',
+        html_url: 'https://github.com/test/repo/releases/tag/v2.0.0',
+        assets: [
+          {
+            id: 1,
+            name: 'EchoNote-2.0.0.exe',
+            size: 1024,
+            download_count: 0,
+            browser_download_url: 'https://github.com/test/repo/releases/download/v2.0.0/x.exe',
+          },
+        ],
+      },
+    ]
+
+    for (const userAgent of [
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/126.0 Mobile Safari/537.36',
+      'curl/8.0',
+    ]) {
+      vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(userAgent)
+      wrapper = mount(HeroSection, { props: { repository: 'test/repo' } })
+      await nextTick()
+
+      const downloadButton = wrapper.find('[data-testid="download-button"]')
+      expect(downloadButton.attributes('href')).toBe('https://github.com/test/repo/releases/latest')
+      expect(downloadButton.attributes('target')).toBe('_blank')
+      expect(wrapper.find('[data-testid="download-options"]').exists()).toBe(false)
+      wrapper.unmount()
+    }
+    wrapper = null
+  })
+
+  it('warns when the system is older than the requirements', async () => {
+    vi.spyOn(navigator, 'userAgent', 'get').mockReturnValue(
+      'Mozilla/5.0 (Windows NT 6.1) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/109.0 Safari/537.36'
+    )
+
+    wrapper = mount(HeroSection)
+    await nextTick()
+
+    const warning = wrapper.find('[data-testid="requirements-warning"]')
+    expect(warning.text()).toContain('downloads.requirements.osVersion')
+    expect(warning.text()).toContain('downloads.requirements.architecture')
   })
 
   it('cycles through all features in animation', async () => {
@@ -145,4 +145,35 @@ describe('LanguageSwitcher', () => {
     expect(button.attributes('aria-expanded')).toBe('true')
     expect(button.classes()).toContain('ring-2')
   })
+
+  it('prefetches a language when its option is hovered or focused', async () => {
+    wrapper = mount(LanguageSwitcher)
+
+    await wrapper.find('button').trigger('click')
+    const [, chineseOption, , frenchOption] = wrapper.findAll('[role="menuitem"]')
+    await chineseOption.trigger('mouseenter')
+    await frenchOption.trigger('focus')
+
+    expect(mockUseI18n.prefetchLanguage).toHaveBeenCalledWith('zh-CN')
+    expect(mockUseI18n.prefetchLanguage).toHaveBeenCalledWith('fr')
+  })
+
+  it('shows the loading language and ignores choices until it is ready', async () => {
+    mockUseI18n.loadingLanguage.value = 'fr'
+    mockUseI18n.isLoadingLanguage.value = true
+    wrapper = mount(LanguageSwitcher)
+
+    const button = wrapper.find('button')
+    await button.trigger('click')
+    const frenchOption = wrapper.find('[data-lang="fr"]')
+    await wrapper.find('[data-lang="zh-CN"]').trigger('click')
+
+    expect(button.attributes('aria-busy')).toBe('true')
+    expect(button.find('.animate-spin').exists()).toBe(true)
+    expect(frenchOption.text()).toContain('common.loading')
+    expect(mockUseI18n.changeLanguage).not.toHaveBeenCalled()
+
+    mockUseI18n.loadingLanguage.value = null
+    mockUseI18n.isLoadingLanguage.value = false
+  })
 })
@@ -2,38 +2,42 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { mount } from '@vue/test-utils'
 import { nextTick } from 'vue'
 import StatsDisplay from '@/components/common/StatsDisplay.vue'
-import { createUseI18nMock } from '../mocks'
+import { createUseI18nMock, createGitHubApiMock } from '../mocks'
 
 // Mock useI18n composable
 const mockUseI18n = createUseI18nMock()
+const mockGitHubApi = createGitHubApiMock()
 
 vi.mock('@/composables/useI18n', () => ({
   useI18n: () => mockUseI18n,
 }))
 
+vi.mock('@/composables/useGitHubApi', () => ({
+  useGitHubApi: () => mockGitHubApi,
+}))
+
 vi.mock('@/utils/common', () => ({
   formatNumber: (num: number) => num.toLocaleString(),
 }))
 
-// Mock fetch
-global.fetch = vi.fn()
-
 describe('StatsDisplay', () => {
   let wrapper: any
 
   beforeEach(() => {
     vi.clearAllMocks()
 
-    // Mock successful API response
-    ;(global.fetch as any).mockResolvedValue({
-      ok: true,
-      json: () =>
-        Promise.resolve({
-          stargazers_count: 150,
-          forks_count: 25,
-          updated_at: '2025-01-01T00:00:00Z',
-        }),
-    })
+    mockGitHubApi.isLoading.value = false
+    mockGitHubApi.error.value = null
+    mockGitHubApi.pausedUntil.value = null
+    mockGitHubApi.statsResult.value = null
+    mockGitHubApi.stats.value = {
+      stars: 150,
+      forks: 25,
+      contributors: 8,
+      releases: 12,
+      lastUpdate: '2025-01-01T00:00:00Z',
+      version: 'v1.2.0',
+    }
   })
 
   afterEach(() => {
@@ -50,6 +54,7 @@ describe('StatsDisplay', () => {
     await new Promise(resolve => setTimeout(resolve, 100))
 
     expect(wrapper.exists()).toBe(true)
+    expect(mockGitHubApi.fetchStats).toHaveBeenCalled()
   })
 
   it('shows loading state when fetching data', () => {
@@ -60,7 +65,7 @@ describe('StatsDisplay', () => {
   })
 
   it('shows error state when data fails to load', async () => {
-    ;(global.fetch as any).mockRejectedValue(new Error('Network error'))
+    mockGitHubApi.error.value = 'Network error'
 
     wrapper = mount(StatsDisplay)
 
@@ -71,6 +76,35 @@ describe('StatsDisplay', () => {
     expect(wrapper.text()).toContain('common.retry')
   })
 
+  it('shows a paused state instead of zeros when rate limited', async () => {
+    mockGitHubApi.stats.value = null
+    mockGitHubApi.pausedUntil.value = new Date('2025-01-01T12:30:00').getTime()
+
+    wrapper = mount(StatsDisplay)
+    await nextTick()
+
+    expect(wrapper.text()).toContain('hero.stats.pausedUntil')
+    expect(wrapper.text()).not.toContain('common.retry')
+  })
+
+  it('labels data that is not live with its age and source', async () => {
+    mockGitHubApi.statsResult.value = {
+      status: 'stale',
+      source: 'build',
+      asOf: '2025-11-02T00:00:00Z',
+      error: 'Network error',
+      data: mockGitHubApi.stats.value!,
+    }
+
+    wrapper = mount(StatsDisplay)
+    await nextTick()
+
+    const label = wrapper.find('[data-testid="data-as-of"]')
+    expect(label.text()).toContain('common.asOf')
+    expect(label.text()).toContain('common.dataSources.build')
+    expect(wrapper.text()).not.toContain('common.retry')
+  })
+
   it('renders with different layouts', () => {
     wrapper = mount(StatsDisplay, {
       props: {
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import {
+  classifyAssetPlatform,
+  describeAsset,
+  resolveDownloads,
+  toReleaseAsset,
+} from '@/utils/assetResolver'
+import { APP_CONFIG } from '@/config/app'
+import type { ReleaseAsset } from '@/types/download'
+
+const patterns = APP_CONFIG.downloads.assetPatterns
+
+const asset = (name: string, size = 1000): ReleaseAsset => ({
+  name,
+  url: `https://example.com/download/${name}`,
+  size,
+  downloadCount: 0,
+})
+
+const release = [
+  'EchoNote-Setup-1.3.0.exe',
+  'EchoNote-1.3.0-win-x64.msi',
+  'EchoNote-1.3.0-universal.dmg',
+  'EchoNote-1.3.0-darwin-arm64.tar.gz',
+  'echonote_1.3.0_amd64.deb',
+  'echonote-1.3.0.x86_64.rpm',
+  'EchoNote-1.3.0-arm64.AppImage',
+  'EchoNote-1.3.0-x86_64.AppImage',
+  'SHA256SUMS.txt',
+  'EchoNote-Setup-1.3.0.exe.blockmap',
+  'latest-mac.yml',
+].map(name => asset(name))
+
+describe('describeAsset', () => {
+  it.each([
+    ['EchoNote-Setup-1.3.0.exe', 'windows', 'x64', 'exe'],
+    ['EchoNote-1.3.0-win-x64.msi', 'windows', 'x64', 'msi'],
+    ['EchoNote-1.3.0-universal.dmg', 'macos', 'universal', 'dmg'],
+    ['EchoNote-1.3.0-darwin-arm64.tar.gz', 'macos', 'arm64', 'tar.gz'],
+    ['echonote_1.3.0_amd64.deb', 'linux', 'x64', 'deb'],
+    ['echonote-1.3.0.x86_64.rpm', 'linux', 'x64', 'rpm'],
+    ['EchoNote-1.3.0-arm64.AppImage', 'linux', 'arm64', 'AppImage'],
+  ])('matches %s', (name, platform, architecture, format) => {
+    expect(describeAsset(asset(name), patterns)).toMatchObject({ platform, architecture, format })
+  })
+
+  it('skips checksums, update manifests and unknown files', () => {
+    expect(describeAsset(asset('SHA256SUMS.txt'), patterns)).toBe(null)
+    expect(describeAsset(asset('EchoNote-Setup-1.3.0.exe.blockmap'), patterns)).toBe(null)
+    expect(describeAsset(asset('source.zip'), patterns)).toBe(null)
+    // An archive that names no platform cannot be placed
+    expect(describeAsset(asset('echonote-1.3.0.tar.gz'), patterns)).toBe(null)
+  })
+
+  it('follows custom patterns', () => {
+    const custom = {
+      ...patterns,
+      platforms: { ...patterns.platforms, linux: /linux|penguin/i },
+    }
+    expect(describeAsset(asset('echonote-penguin-x64.tar.gz'), custom)).toMatchObject({
+      platform: 'linux',
+      format: 'tar.gz',
+    })
+  })
+})
+
+describe('classifyAssetPlatform', () => {
+  it('counts any file for a platform, not only installers', () => {
+    expect(classifyAssetPlatform('echonote-v1.2.0-windows-x64.zip', patterns)).toBe('windows')
+    expect(classifyAssetPlatform('EchoNote.dmg', patterns)).toBe('macos')
+    expect(classifyAssetPlatform('echonote_1.2.0_amd64.deb', patterns)).toBe('linux')
+    expect(classifyAssetPlatform('EchoNote-1.2.0-darwin-arm64.tar.gz', patterns)).toBe('macos')
+    expect(classifyAssetPlatform('EchoNote-1.2.0.exe.sha256', patterns)).toBe('other')
+    expect(classifyAssetPlatform('checksums.txt', patterns)).toBe('other')
+  })
+})
+
+describe('resolveDownloads', () => {
+  it('prefers the recommended format for the platform', () => {
+    const { best, alternatives } = resolveDownloads(release, { platform: 'windows' }, patterns)
+
+    expect(best?.name).toBe('EchoNote-Setup-1.3.0.exe')
+    expect(alternatives.map(item => item.name)).toEqual(['EchoNote-1.3.0-win-x64.msi'])
+  })
+
+  it('prefers the matching architecture, then universal builds', () => {
+    expect(
+      resolveDownloads(release, { platform: 'linux', architecture: 'arm64' }, patterns).best?.name
+    ).toBe('EchoNote-1.3.0-arm64.AppImage')
+    expect(
+      resolveDownloads(release, { platform: 'macos', architecture: 'x64' }, patterns).best?.name
+    ).toBe('EchoNote-1.3.0-universal.dmg')
+  })
+
+  it('orders alternatives by architecture and format', () => {
+    const { alternatives } = resolveDownloads(
+      release,
+      { platform: 'linux', architecture: 'x64' },
+      patterns
+    )
+
+    expect(alternatives.map(item => item.name)).toEqual([
+      'echonote_1.3.0_amd64.deb',
+      'echonote-1.3.0.x86_64.rpm',
+      'EchoNote-1.3.0-arm64.AppImage',
+    ])
+  })
+
+  it('never recommends a build for another architecture', () => {
+    const { best, alternatives } = resolveDownloads(
+      [asset('EchoNote-1.3.0-arm64.AppImage')],
+      { platform: 'linux', architecture: 'x64' },
+      patterns
+    )
+
+    expect(best).toBe(null)
+    expect(alternatives).toHaveLength(1)
+  })
+
+  it('resolves nothing for a release without installers', () => {
+    expect(resolveDownloads([asset('SHA256SUMS.txt')], { platform: 'macos' }, patterns)).toEqual({
+      best: null,
+      alternatives: [],
+    })
+  })
+})
+
+describe('toReleaseAsset', () => {
+  it('normalizes changelog and GitHub assets', () => {
+    const expected = { name: 'a.exe', url: 'https://example.com/a.exe', size: 5, downloadCount: 2 }
+
+    expect(
+      toReleaseAsset({
+        name: 'a.exe',
+        downloadUrl: 'https://example.com/a.exe',
+        size: 5,
+        downloadCount: 2,
+      })
+    ).toEqual(expected)
+    expect(
+      toReleaseAsset({
+        id: 1,
+        name: 'a.exe',
+        browser_download_url: 'https://example.com/a.exe',
+        size: 5,
+        download_count: 2,
+      })
+    ).toEqual(expected)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  CacheStore,
+  createCacheBackend,
+  createIndexedDBBackend,
+  createMemoryBackend,
+} from '@/utils/cacheStorage'
+
+describe('CacheStore', () => {
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  it('returns stored entries', async () => {
+    const store = new CacheStore({ backend: createMemoryBackend() })
+
+    await store.set('key', { data: { stars: 1 }, timestamp: Date.now(), etag: '"abc"' })
+
+    expect(await store.get('key')).toEqual({
+      data: { stars: 1 },
+      timestamp: Date.now(),
+      etag: '"abc"',
+    })
+  })
+
+  it('drops entries older than maxStaleAge', async () => {
+    const backend = createMemoryBackend()
+    const store = new CacheStore({ backend, maxStaleAge: 1000 })
+
+    await store.set('key', { data: 1, timestamp: Date.now() - 2000 })
+
+    expect(await store.get('key')).toBe(null)
+    expect(await backend.keys()).toEqual([])
+  })
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const store = new CacheStore({ backend: createMemoryBackend(), maxEntries: 2 })
+
+    await store.set('oldest', { data: 1, timestamp: Date.now() - 3000 })
+    await store.set('older', { data: 2, timestamp: Date.now() - 2000 })
+    await store.set('newest', { data: 3, timestamp: Date.now() })
+
+    expect(await store.get('oldest')).toBe(null)
+    expect(await store.backend.keys()).toEqual(['older', 'newest'])
+  })
+
+  it('evicts and retries when the backend is full', async () => {
+    const backend = createMemoryBackend()
+    const store = new CacheStore({ backend, maxEntries: 2 })
+    await store.set('a', { data: 1, timestamp: 1 })
+    await store.set('b', { data: 2, timestamp: 2 })
+
+    const set = backend.set
+    backend.set = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('QuotaExceededError'))
+      .mockImplementation(set)
+    await store.set('c', { data: 3, timestamp: 3 })
+
+    expect(await store.get('c')).not.toBe(null)
+    expect(await store.get('a')).toBe(null)
+  })
+
+  it('halves the cache when the backend is full and no limit is set', async () => {
+    const backend = createMemoryBackend()
+    const store = new CacheStore({ backend })
+    for (const [index, key] of ['a', 'b', 'c', 'd'].entries()) {
+      await store.set(key, { data: index, timestamp: index })
+    }
+
+    const set = backend.set
+    backend.set = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('QuotaExceededError'))
+      .mockImplementation(set)
+    await store.set('e', { data: 4, timestamp: 4 })
+
+    expect(await backend.keys()).toEqual(['c', 'd', 'e'])
+  })
+})
+
+describe('cache backends', () => {
+  it('falls back when IndexedDB is unavailable', async () => {
+    const fallback = createMemoryBackend()
+    const backend = createIndexedDBBackend(fallback)
+
+    await backend.set('releases', { data: [], timestamp: 1 })
+
+    expect(await fallback.get('releases')).toEqual({ data: [], timestamp: 1 })
+    expect(await backend.keys()).toEqual(['releases'])
+  })
+
+  it('creates a memory backend on request', () => {
+    expect(createCacheBackend('memory').type).toBe('memory')
+    expect(createCacheBackend('localStorage').type).toBe('localStorage')
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAdoptionCurves,
+  getPlatformShareTrend,
+  getWeeklyDownloads,
+  mergeDownloadHistories,
+} from '@/utils/downloadAnalytics'
+import { APP_CONFIG } from '@/config/app'
+import type { DownloadHistorySample } from '@/types/github'
+
+const patterns = APP_CONFIG.downloads.assetPatterns
+
+const sample = (
+  date: string,
+  releases: DownloadHistorySample['releases']
+): DownloadHistorySample => ({ date, releases })
+
+// Monday 2025-11-03 to Monday 2025-11-17
+const samples = [
+  sample('2025-11-03', { 'v1.2.0': { 'app.exe': 100, 'app.dmg': 50 } }),
+  sample('2025-11-07', { 'v1.2.0': { 'app.exe': 130, 'app.dmg': 60 } }),
+  sample('2025-11-12', {
+    'v1.3.0': { 'app.exe': 20, 'app.AppImage': 10 },
+    'v1.2.0': { 'app.exe': 150, 'app.dmg': 70 },
+  }),
+  sample('2025-11-17', {
+    'v1.3.0': { 'app.exe': 260, 'app.AppImage': 40 },
+    'v1.2.0': { 'app.exe': 160, 'app.dmg': 80 },
+  }),
+]
+
+describe('getAdoptionCurves', () => {
+  it('follows each release from its first sample, most downloaded first', () => {
+    expect(getAdoptionCurves(samples)).toEqual([
+      {
+        release: 'v1.3.0',
+        points: [
+          { date: '2025-11-12', downloads: 30 },
+          { date: '2025-11-17', downloads: 300 },
+        ],
+      },
+      {
+        release: 'v1.2.0',
+        points: [
+          { date: '2025-11-03', downloads: 150 },
+          { date: '2025-11-07', downloads: 190 },
+          { date: '2025-11-12', downloads: 220 },
+          { date: '2025-11-17', downloads: 240 },
+        ],
+      },
+    ])
+  })
+})
+
+describe('getPlatformShareTrend', () => {
+  it('splits cumulative downloads by platform', () => {
+    const [first, , , last] = getPlatformShareTrend(samples, patterns)
+
+    expect(first).toMatchObject({
+      total: 150,
+      downloads: { windows: 100, macos: 50, linux: 0, other: 0 },
+    })
+    expect(last?.total).toBe(540)
+    expect(last?.shares.windows).toBeCloseTo(420 / 540)
+    expect(last?.shares.linux).toBeCloseTo(40 / 540)
+  })
+
+  it('reports zero shares before any download', () => {
+    const [trend] = getPlatformShareTrend([sample('2025-11-03', { 'v1.0.0': {} })], patterns)
+    expect(trend?.shares).toEqual({ windows: 0, macos: 0, linux: 0, other: 0 })
+  })
+})
+
+describe('getWeeklyDownloads', () => {
+  it('counts downloads gained per week against the week before', () => {
+    expect(getWeeklyDownloads(samples)).toEqual([
+      { week: '2025-11-10', total: 250, downloads: 60, delta: null },
+      { week: '2025-11-17', total: 540, downloads: 290, delta: 230 },
+    ])
+  })
+
+  it('leaves weeks without samples as gaps', () => {
+    const gapped = [
+      sample('2025-11-03', { 'v1.2.0': { 'app.exe': 100, 'app.dmg': 50 } }),
+      sample('2025-11-24', { 'v1.2.0': { 'app.exe': 400 } }),
+    ]
+
+    expect(getWeeklyDownloads(gapped)).toEqual([
+      { week: '2025-11-10', total: null, downloads: null, delta: null },
+      { week: '2025-11-17', total: null, downloads: null, delta: null },
+      { week: '2025-11-24', total: 400, downloads: null, delta: null },
+    ])
+  })
+
+  it('needs two weeks of history', () => {
+    expect(getWeeklyDownloads(samples.slice(0, 2))).toEqual([])
+  })
+})
+
+describe('mergeDownloadHistories', () => {
+  it('carries each repository forward to dates it has no sample for', () => {
+    const merged = mergeDownloadHistories(
+      {
+        repositories: {
+          'test/app': [
+            sample('2025-11-03', { v1: { 'a.exe': 1 } }),
+            sample('2025-11-05', { v1: { 'a.exe': 3 } }),
+          ],
+          'test/cli': [sample('2025-11-04', { v1: { 'c.deb': 2 } })],
+        },
+      },
+      ['test/app', 'test/cli']
+    )
+
+    expect(merged).toEqual([
+      sample('2025-11-03', { 'test/app v1': { 'a.exe': 1 } }),
+      sample('2025-11-04', { 'test/app v1': { 'a.exe': 1 }, 'test/cli v1': { 'c.deb': 2 } }),
+      sample('2025-11-05', { 'test/app v1': { 'a.exe': 3 }, 'test/cli v1': { 'c.deb': 2 } }),
+    ])
+  })
+
+  it('keeps plain tags for a single repository', () => {
+    expect(mergeDownloadHistories({ repositories: { 'test/app': samples } }, ['test/app'])).toEqual(
+      samples
+    )
+  })
+})
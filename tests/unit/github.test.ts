@@ -0,0 +1,351 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  GitHubApiError,
+  GitHubClient,
+  GitHubRateLimitError,
+  aggregateGitHubStats,
+  mergeContributors,
+  parseLinkHeader,
+} from '@/utils/github'
+import { GitHubRateLimitTracker } from '@/utils/githubRateLimit'
+import { CacheStore, createMemoryBackend } from '@/utils/cacheStorage'
+import type { GitHubStats } from '@/types/github'
+
+const jsonResponse = (data: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+
+describe('GitHubClient', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createClient = () =>
+    new GitHubClient({ fetch: mockFetch, cacheTimeout: 60 * 1000, retryDelay: 10 })
+
+  it('serves fresh cache entries without a network call', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ stargazers_count: 1 }))
+    const client = createClient()
+
+    await client.getRepository('test/repo')
+    const repo = await client.getRepository('test/repo')
+
+    expect(repo.stargazers_count).toBe(1)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends If-None-Match for expired entries and reuses data on 304', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ stargazers_count: 1 }, { ETag: '"abc"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const client = createClient()
+
+    await client.getRepository('test/repo')
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    const repo = await client.getRepository('test/repo')
+
+    expect(repo.stargazers_count).toBe(1)
+    expect(mockFetch.mock.calls[1][1].headers['If-None-Match']).toBe('"abc"')
+    expect((await client.cache.get('https://api.github.com/repos/test/repo'))?.timestamp).toBe(
+      Date.now()
+    )
+  })
+
+  it('falls back to If-Modified-Since when no ETag was stored', async () => {
+    const cache = new CacheStore({ backend: createMemoryBackend() })
+    await cache.set('key', {
+      data: [],
+      timestamp: 0,
+      lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+    })
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const client = new GitHubClient({ fetch: mockFetch, cache })
+
+    await client.request('https://api.github.com/repos/test/repo', { cacheKey: 'key' })
+
+    expect(mockFetch.mock.calls[0][1].headers['If-Modified-Since']).toBe(
+      'Wed, 01 Jan 2025 00:00:00 GMT'
+    )
+  })
+
+  it('serves stale data and revalidates in the background', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ stargazers_count: 1 }))
+      .mockResolvedValueOnce(jsonResponse({ stargazers_count: 2 }))
+    const client = new GitHubClient({
+      fetch: mockFetch,
+      cacheTimeout: 60 * 1000,
+      staleWhileRevalidate: true,
+    })
+    const onRevalidate = vi.fn()
+
+    await client.getRepository('test/repo')
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    const repo = await client.getRepository('test/repo', { onRevalidate })
+
+    expect(repo.stargazers_count).toBe(1)
+    await vi.waitFor(() =>
+      expect(onRevalidate).toHaveBeenCalledWith(expect.objectContaining({ stargazers_count: 2 }))
+    )
+  })
+
+  it('retries transient failures', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(jsonResponse([{ login: 'user1' }]))
+    const client = createClient()
+
+    const promise = client.getContributors('test/repo')
+    await vi.runAllTimersAsync()
+
+    expect(await promise).toHaveLength(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('follows Link headers across pages', async () => {
+    const page2 = 'https://api.github.com/repositories/1/contributors?per_page=1&page=2'
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse([{ login: 'user1' }], { Link: `<${page2}>; rel="next"` }))
+      .mockResolvedValueOnce(jsonResponse([{ login: 'user2' }]))
+    const client = createClient()
+    const onPage = vi.fn()
+
+    const contributors = await client.getContributors('test/repo', { perPage: 1, onPage })
+
+    expect(contributors.map(c => c.login)).toEqual(['user1', 'user2'])
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://api.github.com/repos/test/repo/contributors?per_page=1'
+    )
+    expect(mockFetch.mock.calls[1][0]).toBe(page2)
+    expect(onPage).toHaveBeenNthCalledWith(1, [{ login: 'user1' }], 1, expect.any(Array))
+    expect(onPage).toHaveBeenLastCalledWith([{ login: 'user2' }], 2, contributors)
+  })
+
+  it('stops after maxPages', async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(jsonResponse([{ tag_name: url }], { Link: `<${url}&next>; rel="next"` }))
+    )
+    const client = createClient()
+
+    const releases = await client.getReleases('test/repo', { maxPages: 3 })
+
+    expect(releases).toHaveLength(3)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('serves cached pages without refetching', async () => {
+    const page2 = 'https://api.github.com/repos/test/repo/releases?page=2'
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse([{ id: 1 }], { Link: `<${page2}>; rel="next"` }))
+      .mockResolvedValueOnce(jsonResponse([{ id: 2 }]))
+    const client = createClient()
+
+    await client.getReleases('test/repo')
+    const releases = await client.getReleases('test/repo')
+
+    expect(releases).toEqual([{ id: 1 }, { id: 2 }])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('clears every cached page of an endpoint', async () => {
+    const page2 = 'https://api.github.com/repos/test/repo/releases?page=2'
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse([{ id: 1 }], { Link: `<${page2}>; rel="next"` }))
+      .mockResolvedValueOnce(jsonResponse([{ id: 2 }]))
+    const client = createClient()
+    await client.getReleases('test/repo', { cacheKey: 'releases' })
+    await client.cache.set('releases-notes', { data: [], timestamp: Date.now() })
+
+    await client.clearCache('releases')
+
+    expect(await client.cache.keys()).toEqual(['releases-notes'])
+  })
+
+  it('does not retry missing resources', async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 404 }))
+    const client = createClient()
+
+    await expect(client.getLatestRelease('test/repo')).rejects.toBeInstanceOf(GitHubApiError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up when the rate limit resets too far in the future', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600
+    mockFetch.mockResolvedValue(
+      new Response(null, { status: 403, headers: { 'X-RateLimit-Reset': String(reset) } })
+    )
+    const client = createClient()
+
+    const error = await client.getRepository('test/repo').catch(err => err)
+
+    expect(GitHubClient.isRateLimited(error)).toBe(true)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('tracks the remaining budget from every response', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 600
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse(
+        { stargazers_count: 1 },
+        {
+          'X-RateLimit-Limit': '60',
+          'X-RateLimit-Remaining': '59',
+          'X-RateLimit-Reset': String(reset),
+        }
+      )
+    )
+    const client = createClient()
+
+    await client.getRepository('test/repo')
+
+    expect(client.rateLimit.state).toMatchObject({
+      limit: 60,
+      remaining: 59,
+      resetAt: reset * 1000,
+    })
+  })
+
+  it('holds normal requests once the budget drops below the threshold', async () => {
+    const rateLimit = new GitHubRateLimitTracker(10)
+    const reset = Math.floor(Date.now() / 1000) + 600
+    mockFetch.mockImplementation(() =>
+      Promise.resolve(
+        jsonResponse([], { 'X-RateLimit-Remaining': '5', 'X-RateLimit-Reset': String(reset) })
+      )
+    )
+    const client = new GitHubClient({ fetch: mockFetch, rateLimit, cacheTimeout: 60 * 1000 })
+
+    await client.getReleases('test/repo')
+    vi.advanceTimersByTime(2 * 60 * 1000)
+
+    // Expired entries are served as-is instead of spending the budget
+    expect(await client.getReleases('test/repo')).toEqual([])
+    const error = await client.getContributors('test/repo').catch(err => err)
+    expect(error).toBeInstanceOf(GitHubRateLimitError)
+    expect(error.resetAt).toBe(reset * 1000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await client.getRepository('test/repo', { priority: 'critical' })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('GitHubRateLimitTracker', () => {
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  it('resumes once the window resets', () => {
+    const tracker = new GitHubRateLimitTracker(10)
+    const listener = vi.fn()
+    tracker.subscribe(listener)
+
+    tracker.exhaust(Date.now() + 1000)
+
+    expect(tracker.pausedUntil('critical')).toBe(Date.now() + 1000)
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ remaining: 0 }))
+
+    vi.setSystemTime(Date.now() + 1000)
+    expect(tracker.pausedUntil('critical')).toBe(null)
+  })
+
+  it('ignores responses without rate-limit headers', () => {
+    const tracker = new GitHubRateLimitTracker()
+
+    tracker.update(new Headers({ 'Content-Type': 'application/json' }))
+
+    expect(tracker.state.remaining).toBe(null)
+    expect(tracker.pausedUntil()).toBe(null)
+  })
+})
+
+describe('parseLinkHeader', () => {
+  it('maps relations to URLs', () => {
+    expect(
+      parseLinkHeader(
+        '<https://api.github.com/x?page=2>; rel="next", <https://api.github.com/x?page=5>; rel="last"'
+      )
+    ).toEqual({
+      next: 'https://api.github.com/x?page=2',
+      last: 'https://api.github.com/x?page=5',
+    })
+  })
+
+  it('handles a missing header', () => {
+    expect(parseLinkHeader(null)).toEqual({})
+  })
+})
+
+describe('mergeContributors', () => {
+  const contributor = (login: string, contributions: number) => ({
+    id: contributions,
+    login,
+    avatar_url: '',
+    html_url: `https://github.com/${login}`,
+    contributions,
+  })
+
+  it('de-duplicates by login and sums contributions', () => {
+    const merged = mergeContributors([
+      [contributor('alice', 10), contributor('bob', 3)],
+      [contributor('Alice', 5), contributor('carol', 12)],
+    ])
+
+    expect(merged.map(({ login, contributions }) => [login, contributions])).toEqual([
+      ['alice', 15],
+      ['carol', 12],
+      ['bob', 3],
+    ])
+  })
+})
+
+describe('aggregateGitHubStats', () => {
+  const stats = (overrides: Partial<GitHubStats>): GitHubStats => ({
+    stars: 0,
+    forks: 0,
+    contributors: 0,
+    releases: 0,
+    lastUpdate: '2025-01-01T00:00:00Z',
+    version: 'v1.0.0',
+    ...overrides,
+  })
+
+  it('sums counts and keeps the first repository version', () => {
+    const result = aggregateGitHubStats(
+      [
+        stats({ stars: 100, forks: 10, contributors: 5, releases: 4, version: 'v2.0.0' }),
+        stats({ stars: 20, forks: 2, contributors: 3, releases: 1, lastUpdate: '2025-02-01' }),
+      ],
+      6
+    )
+
+    expect(result).toEqual({
+      stars: 120,
+      forks: 12,
+      contributors: 6,
+      releases: 5,
+      lastUpdate: '2025-02-01',
+      version: 'v2.0.0',
+    })
+  })
+
+  it('reports contributors as unknown without a de-duplicated count', () => {
+    const result = aggregateGitHubStats([stats({ contributors: 5 }), stats({ contributors: 3 })])
+
+    expect(result?.contributors).toBe(null)
+  })
+
+  it('returns null without stats', () => {
+    expect(aggregateGitHubStats([])).toBe(null)
+  })
+})
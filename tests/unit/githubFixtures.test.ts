@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GitHubClient } from '@/utils/github'
+import {
+  createFixtureSet,
+  createRecordingFetch,
+  createReplayFetch,
+  mergeFixtureSets,
+} from '@/utils/githubFixtures'
+import { clearGitHubStore, useGitHubApi } from '@/composables/useGitHubApi'
+
+vi.mock('@/config/app', async importOriginal => {
+  const { APP_CONFIG } = await importOriginal<typeof import('@/config/app')>()
+  return {
+    APP_CONFIG: {
+      ...APP_CONFIG,
+      github: { ...APP_CONFIG.github, fixtures: { replay: true } },
+    },
+  }
+})
+
+describe('GitHub fixtures', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('records responses with their headers and replays them', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ stargazers_count: 7 }), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-RateLimit-Remaining': '42',
+          'Set-Cookie': 'secret',
+        },
+      })
+    )
+    const fixtures = createFixtureSet()
+
+    await new GitHubClient({ fetch: createRecordingFetch(fixtures, mockFetch) }).getRepository(
+      'test/repo'
+    )
+
+    const fixture = fixtures.responses['https://api.github.com/repos/test/repo']
+    expect(fixture?.body).toEqual({ stargazers_count: 7 })
+    expect(fixture?.headers['x-ratelimit-remaining']).toBe('42')
+    expect(fixture?.headers).not.toHaveProperty('set-cookie')
+
+    const replay = createReplayFetch(fixtures)
+    const response = await replay('https://api.github.com/repos/test/repo')
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('42')
+    expect(await response.json()).toEqual({ stargazers_count: 7 })
+  })
+
+  it('answers unrecorded URLs with a 404 instead of the network', async () => {
+    const client = new GitHubClient({ fetch: createReplayFetch(createFixtureSet()) })
+
+    await expect(client.getRepository('test/missing')).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('merges fixture sets', () => {
+    const merged = mergeFixtureSets([
+      {
+        recordedAt: '2025-01-01T00:00:00Z',
+        responses: { a: { status: 200, headers: {}, body: 1 } },
+      },
+      {
+        recordedAt: '2025-02-01T00:00:00Z',
+        responses: { b: { status: 200, headers: {}, body: 2 } },
+      },
+    ])
+
+    expect(merged.recordedAt).toBe('2025-02-01T00:00:00Z')
+    expect(Object.keys(merged.responses)).toEqual(['a', 'b'])
+  })
+})
+
+describe('useGitHubApi in replay mode', () => {
+  beforeEach(() => {
+    clearGitHubStore()
+    global.fetch = vi.fn()
+  })
+
+  it('answers from recordings only, never the network', async () => {
+    // Recordings are bundled only when VITE_GITHUB_FIXTURES is set, so none are loaded here
+    const { fetchStats } = useGitHubApi('test/repo')
+
+    expect(await fetchStats()).toMatchObject({ status: 'error', data: null })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  appendDownloadSample,
+  countDownloads,
+  createDownloadSample,
+  createRepositorySnapshot,
+  readDownloadHistory,
+  readGitHubSnapshot,
+  validateDownloadHistory,
+  validateGitHubSnapshot,
+} from '@/utils/githubSnapshot'
+import { clearGitHubStore, useGitHubApi } from '@/composables/useGitHubApi'
+import snapshotData from '@/data/github-snapshot.json'
+import type { GitHubRelease, GitHubRepository, GitHubSnapshot } from '@/types/github'
+
+// Hoisted so the snapshot mock below can build from them
+const { repo, release } = vi.hoisted(() => {
+  const repo: GitHubRepository = {
+    id: 1,
+    name: 'repo',
+    full_name: 'test/repo',
+    description: null,
+    html_url: 'https://github.com/test/repo',
+    stargazers_count: 10,
+    forks_count: 2,
+    watchers_count: 3,
+    open_issues_count: 0,
+    language: 'Python',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-02T00:00:00Z',
+    pushed_at: '2025-01-02T00:00:00Z',
+    license: null,
+  }
+
+  const release = (tag: string, downloads: number[], draft = false): GitHubRelease => ({
+    id: 1,
+    tag_name: tag,
+    name: tag,
+    body: '',
+    draft,
+    prerelease: false,
+    published_at: '2025-01-01T00:00:00Z',
+    html_url: `https://github.com/test/repo/releases/${tag}`,
+    assets: downloads.map((count, index) => ({
+      id: index + 1,
+      name: `asset-${index}`,
+      size: 100,
+      download_count: count,
+      browser_download_url: `https://github.com/test/repo/releases/download/${tag}/asset-${index}`,
+    })),
+  })
+
+  return { repo, release }
+})
+
+// A snapshot as the generator writes it - the committed file is empty until it runs
+vi.mock('@/data/github-snapshot.json', async () => {
+  const { createRepositorySnapshot } = await import('@/utils/githubSnapshot')
+  return {
+    default: {
+      generatedAt: '2025-11-02T00:00:00Z',
+      repositories: {
+        'test/repo': createRepositorySnapshot(repo, [], [release('v1.0.0', [5, 7])]),
+      },
+    },
+  }
+})
+
+vi.mock('@/config/app', async importOriginal => {
+  const { APP_CONFIG } = await importOriginal<typeof import('@/config/app')>()
+  return {
+    APP_CONFIG: {
+      ...APP_CONFIG,
+      github: {
+        ...APP_CONFIG.github,
+        snapshot: { enabled: true, liveRefresh: false },
+      },
+    },
+  }
+})
+
+describe('GitHub snapshots', () => {
+  it('builds a snapshot without drafts or extra API fields', () => {
+    const snapshot = createRepositorySnapshot(
+      { ...repo, node_id: 'abc' } as GitHubRepository,
+      [],
+      [release('v1.1.0', [1], true), release('v1.0.0', [5, 7])]
+    )
+
+    expect(snapshot.repo).not.toHaveProperty('node_id')
+    expect(snapshot.releases.map(r => r.tag_name)).toEqual(['v1.0.0'])
+    expect(snapshot.stats).toMatchObject({ stars: 10, releases: 1, version: 'v1.0.0' })
+    expect(snapshot.downloads).toEqual({ total: 12, byRelease: { 'v1.0.0': 12 } })
+  })
+
+  it('counts downloads per release', () => {
+    expect(countDownloads([release('v2', [1, 2]), release('v1', [])])).toEqual({
+      total: 3,
+      byRelease: { v2: 3, v1: 0 },
+    })
+  })
+
+  it('reports every mismatch against the types', () => {
+    const snapshot = createRepositorySnapshot(repo, [], [release('v1.0.0', [1])])
+    const broken = JSON.parse(JSON.stringify(snapshot))
+    broken.repo.stargazers_count = '10'
+    delete broken.releases[0].assets[0].size
+
+    expect(
+      validateGitHubSnapshot({ generatedAt: 'now', repositories: { 'test/repo': broken } })
+    ).toEqual([
+      'snapshot.repositories.test/repo.repo.stargazers_count: expected number, got string',
+      'snapshot.repositories.test/repo.releases[0].assets[0].size: expected number, got undefined',
+    ])
+  })
+
+  it('rejects data the generator could not have written', () => {
+    const snapshot = createRepositorySnapshot(repo, [], [release('v1.0.0', [1])])
+    const placeholder = {
+      ...snapshot,
+      repo: { ...snapshot.repo, id: 0 },
+      stats: { ...snapshot.stats, contributors: 12 },
+      releases: [{ ...snapshot.releases[0], html_url: 'https://github.com/other/repo' }],
+    }
+
+    expect(
+      validateGitHubSnapshot({ generatedAt: 'now', repositories: { 'test/repo': placeholder } })
+    ).toEqual([
+      'snapshot.repositories.test/repo.repo.id: expected a GitHub id, got 0',
+      'snapshot.repositories.test/repo.releases[0].html_url: expected a page of https://github.com/test/repo',
+      'snapshot.repositories.test/repo.stats.contributors: expected 0 from the lists, got 12',
+    ])
+  })
+
+  it('treats a missing or invalid snapshot as unavailable', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const snapshot = createRepositorySnapshot(repo, [], [release('v1.0.0', [1])])
+
+    expect(readGitHubSnapshot({ generatedAt: null, repositories: {} })).toBe(null)
+    expect(
+      readGitHubSnapshot({ generatedAt: 'now', repositories: { 'other/repo': snapshot } })
+    ).toBe(null)
+    expect(
+      readGitHubSnapshot({ generatedAt: 'now', repositories: { 'test/repo': snapshot } })
+    ).not.toBe(null)
+    expect(warn).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+})
+
+describe('download history', () => {
+  const empty = { repositories: {} }
+
+  it('records asset counts per release for the day', () => {
+    expect(
+      createDownloadSample([release('v1.0.0', [5, 7])], new Date('2025-11-02T18:30:00Z'))
+    ).toEqual({ date: '2025-11-02', releases: { 'v1.0.0': { 'asset-0': 5, 'asset-1': 7 } } })
+  })
+
+  it('replaces a sample taken earlier the same day', () => {
+    let history = appendDownloadSample(empty, 'test/repo', { date: '2025-11-02', releases: {} })
+    history = appendDownloadSample(history, 'test/repo', {
+      date: '2025-11-02',
+      releases: { v1: { a: 1 } },
+    })
+
+    expect(history.repositories['test/repo']).toEqual([
+      { date: '2025-11-02', releases: { v1: { a: 1 } } },
+    ])
+  })
+
+  it('thins samples older than the daily window to one per week', () => {
+    let history: Parameters<typeof appendDownloadSample>[0] = empty
+    // Monday 2025-09-01 to Sunday 2025-09-14, then a sample three months after that
+    for (let day = 1; day <= 14; day++) {
+      const date = `2025-09-${String(day).padStart(2, '0')}`
+      history = appendDownloadSample(history, 'test/repo', { date, releases: {} })
+    }
+    history = appendDownloadSample(history, 'test/repo', { date: '2025-12-20', releases: {} })
+
+    expect(history.repositories['test/repo']?.map(item => item.date)).toEqual([
+      '2025-09-07',
+      '2025-09-14',
+      '2025-12-20',
+    ])
+  })
+
+  it('validates the history', () => {
+    expect(validateDownloadHistory(empty)).toEqual([])
+    expect(
+      validateDownloadHistory({
+        repositories: { 'test/repo': [{ date: '2025-11-02', releases: { v1: { a: '1' } } }] },
+      })
+    ).toEqual(['history.repositories.test/repo[0].releases.v1.a: expected number, got string'])
+  })
+
+  it('treats an invalid history as empty', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(readDownloadHistory({ repositories: { 'test/repo': {} } })).toEqual(empty)
+    warn.mockRestore()
+  })
+})
+
+describe('useGitHubApi with a snapshot', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    clearGitHubStore()
+    mockFetch.mockReset()
+    global.fetch = mockFetch
+  })
+
+  it('serves the snapshot without calling the API', async () => {
+    const { stats, fetchStats, fetchReleases } = useGitHubApi('test/repo')
+    const snapshot = snapshotData as GitHubSnapshot
+    const expected = snapshot.repositories['test/repo']
+
+    expect(stats.value).toEqual(expected?.stats)
+    expect(await fetchStats()).toEqual({
+      status: 'ok',
+      source: 'snapshot',
+      asOf: snapshot.generatedAt,
+      data: expected?.stats,
+    })
+    expect(await fetchReleases()).toHaveLength(1)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('reports repositories missing from the snapshot as unavailable without calling the API', async () => {
+    const { fetchRepository, fetchStats } = useGitHubApi('test/other')
+
+    expect(await fetchRepository()).toBeNull()
+    expect(await fetchStats()).toEqual({
+      status: 'error',
+      data: null,
+      error: 'Not in the build-time snapshot',
+    })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
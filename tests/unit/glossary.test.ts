@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { checkTerminology, loadGlossary } from '@/utils/glossary'
+import { TRANSLATION_GLOSSARY, checkTerminologyConsistency } from '@/utils/translationManager'
+import en from '@/locales/en.json'
+import fr from '@/locales/fr.json'
+import zhCN from '@/locales/zh-CN.json'
+import zhTW from '@/locales/zh-TW.json'
+
+const glossary = loadGlossary({
+  terms: [
+    {
+      id: 'echonote',
+      caseSensitive: true,
+      translations: {
+        en: { term: 'EchoNote' },
+        fr: { term: 'EchoNote', forbidden: ['Echo Note'] },
+      },
+    },
+    {
+      id: 'calendar',
+      translations: {
+        en: { term: 'calendar', forms: ['calendars'] },
+        fr: { term: 'calendrier', forms: ['calendriers'], forbidden: ['agenda'] },
+      },
+    },
+  ],
+})
+
+describe('loadGlossary', () => {
+  it('rejects terms without an English entry', () => {
+    expect(() =>
+      loadGlossary({ terms: [{ id: 'x', translations: { fr: { term: 'x' } } }] })
+    ).toThrow('needs an id and an "en" entry')
+    expect(() => loadGlossary({})).toThrow('"terms" array')
+  })
+})
+
+describe('checkTerminology', () => {
+  it('reports forbidden variants with the corrected string', () => {
+    const issues = checkTerminology(glossary, { nav: { calendar: 'Agenda partagé' } }, 'fr')
+
+    expect(issues).toEqual([
+      {
+        path: 'nav.calendar',
+        type: 'terminology',
+        severity: 'medium',
+        message: 'Uses "agenda" instead of the glossary term "calendrier"',
+        suggestion: 'Calendrier partagé',
+      },
+    ])
+  })
+
+  it('enforces the capitalisation of case-sensitive terms', () => {
+    const [issue] = checkTerminology(glossary, { title: 'Bienvenue sur Echonote' }, 'fr')
+
+    expect(issue?.message).toBe('"EchoNote" must be written with this capitalisation')
+    expect(issue?.suggestion).toBe('Bienvenue sur EchoNote')
+  })
+
+  it('reports translations that drop the term of their English source', () => {
+    const reference = { a: 'Sync your calendars', b: 'Sync your calendars' }
+    const issues = checkTerminology(
+      glossary,
+      { a: 'Synchronisez vos calendriers', b: 'Synchronisez vos plannings' },
+      'fr',
+      reference
+    )
+
+    expect(issues.map(issue => issue.path)).toEqual(['b'])
+    expect(issues[0]?.suggestion).toBe('Use "calendrier"')
+  })
+
+  it('matches Latin terms as whole words only', () => {
+    expect(checkTerminology(glossary, { text: 'Les agendas' }, 'fr')).toEqual([])
+  })
+})
+
+describe('TRANSLATION_GLOSSARY', () => {
+  it('keeps the shipped locales free of forbidden variants', () => {
+    const issues = checkTerminologyConsistency({ en, fr, 'zh-CN': zhCN, 'zh-TW': zhTW })
+
+    expect(Object.keys(issues)).toEqual(['en', 'fr', 'zh-CN', 'zh-TW'])
+    expect(
+      Object.values(issues)
+        .flat()
+        .filter(issue => issue.severity !== 'low')
+    ).toEqual([])
+  })
+
+  it('translates every term except product names into Chinese', () => {
+    const terms = TRANSLATION_GLOSSARY.terms.filter(term => !term.caseSensitive)
+
+    for (const { translations } of terms) {
+      expect(translations['zh-CN']?.term).not.toBe(translations.en?.term)
+      expect(translations['zh-TW']?.term).not.toBe(translations.en?.term)
+    }
+  })
+})
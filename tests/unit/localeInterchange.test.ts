@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import {
+  INTERCHANGE_FORMATS,
+  applyUnits,
+  buildUnits,
+  describeSource,
+  parsePo,
+  parseXliff,
+} from '@/utils/localeInterchange'
+import { TRANSLATION_GLOSSARY } from '@/utils/translationManager'
+import type { TranslationUnit } from '@/types/i18n'
+import en from '@/locales/en.json'
+import fr from '@/locales/fr.json'
+
+const reference = {
+  nav: { home: 'Home', count: '{count} item | {count} items' },
+  steps: ['Download', 'Install'],
+}
+
+const unit = (id: string, source: string, target?: string, needsReview = false) => ({
+  id,
+  source,
+  target,
+  notes: [],
+  needsReview,
+})
+
+describe('describeSource', () => {
+  it('notes placeholders, plural forms and glossary terms', () => {
+    expect(
+      describeSource('{count} calendar | {count} calendars', 'fr', TRANSLATION_GLOSSARY)
+    ).toEqual([
+      'Keep the placeholders {count}',
+      'Plural forms, separated by " | "',
+      'Glossary: "calendar" → "calendrier"',
+    ])
+  })
+})
+
+describe('buildUnits', () => {
+  it('uses key paths as ids and flags missing or reported strings', () => {
+    const units = buildUnits(reference, { nav: { home: 'Accueil' } }, 'fr', {
+      flagged: new Set(['steps.1']),
+    })
+
+    expect(units.map(({ id, target, needsReview }) => [id, target, needsReview])).toEqual([
+      ['nav.home', 'Accueil', false],
+      ['nav.count', undefined, true],
+      ['steps.0', undefined, true],
+      ['steps.1', undefined, true],
+    ])
+  })
+})
+
+describe('applyUnits', () => {
+  it('rebuilds the reference structure and reports the diff', () => {
+    const current = { nav: { home: 'Accueil' }, legacy: 'Ancien' }
+    const { messages, diff } = applyUnits(reference, current, [
+      unit('nav.home', 'Home', "Page d'accueil"),
+      unit('nav.count', '{count} items', '{count} élément | {count} éléments', true),
+      unit('steps.1', 'Install', 'Installer'),
+      unit('nav.gone', 'Gone', 'Parti'),
+    ])
+
+    expect(messages).toEqual({
+      nav: { home: "Page d'accueil", count: '{count} élément | {count} éléments' },
+      steps: ['Download', 'Installer'],
+    })
+    expect(diff).toEqual({
+      added: ['nav.count', 'steps.1'],
+      changed: [{ id: 'nav.home', from: 'Accueil', to: "Page d'accueil" }],
+      removed: ['legacy'],
+      unknown: ['nav.gone'],
+      staleSource: ['nav.count'],
+      needsReview: ['nav.count'],
+    })
+  })
+
+  it('keeps the current translation when the file leaves a target empty', () => {
+    const { messages, diff } = applyUnits(reference, { nav: { home: 'Accueil' } }, [
+      unit('nav.home', 'Home', ''),
+    ])
+
+    expect(messages).toEqual({ nav: { home: 'Accueil' }, steps: ['Download', 'Install'] })
+    expect(diff.changed).toEqual([])
+  })
+})
+
+describe('INTERCHANGE_FORMATS', () => {
+  const units: TranslationUnit[] = [
+    {
+      id: 'a.b',
+      source: 'Use <b>"quotes"</b> & {name}\nthen a\ttab \\ done',
+      target: 'Utilisez <b>« guillemets »</b> & {name}\npuis',
+      notes: ['Keep the placeholders {name}'],
+      needsReview: false,
+    },
+    { id: 'c', source: 'Pending', target: undefined, notes: [], needsReview: true },
+  ]
+  const document = { sourceLocale: 'en', targetLocale: 'fr', units }
+
+  it.each(['xliff', 'po'] as const)('round-trips units through %s', format => {
+    const { serialize, parse } = INTERCHANGE_FORMATS[format]
+
+    expect(parse(serialize(document))).toEqual(document)
+  })
+
+  it('round-trips a shipped locale back into the same messages', () => {
+    const units = buildUnits(en, fr, 'fr', { glossary: TRANSLATION_GLOSSARY })
+
+    for (const { serialize, parse } of Object.values(INTERCHANGE_FORMATS)) {
+      const { messages, diff } = applyUnits(en, fr, parse(serialize({ ...document, units })).units)
+      expect(messages).toEqual(fr)
+      expect(diff.changed).toEqual([])
+    }
+  })
+
+  it('reads review state and CDATA written by CAT tools', () => {
+    const xliff = parseXliff(`<xliff version="2.0" srcLang="en" trgLang="zh-CN">
+      <file id="f"><unit id="nav.home"><segment state="reviewed">
+        <source>Home</source><target><![CDATA[首页 & <主页>]]></target>
+      </segment></unit></file></xliff>`)
+    const po = parsePo(`msgid ""
+msgstr "Language: zh-TW\\n"
+
+#, fuzzy, c-format
+msgctxt "nav.home"
+msgid "Home"
+msgstr ""
+"首"
+"頁"
+`)
+
+    expect(xliff.targetLocale).toBe('zh-CN')
+    expect(xliff.units[0]).toMatchObject({ target: '首页 & <主页>', needsReview: false })
+    expect(po.targetLocale).toBe('zh-TW')
+    expect(po.units[0]).toMatchObject({ id: 'nav.home', target: '首頁', needsReview: true })
+  })
+
+  it('rejects files that are not XLIFF 2.0', () => {
+    expect(() => parseXliff('<xliff version="1.2"></xliff>')).toThrow('Not an XLIFF 2.0 document')
+  })
+})
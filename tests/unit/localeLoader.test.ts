@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { fetchLocaleMessages, isMessageLanguage } from '@/i18n/loader'
+import { i18n, loadLocaleMessages, loadingLocale } from '@/i18n'
+import en from '@/locales/en.json'
+import fr from '@/locales/fr.json'
+
+describe('fetchLocaleMessages', () => {
+  it('resolves English from the main bundle and other locales from their chunks', async () => {
+    expect(await fetchLocaleMessages('en')).toBe(en)
+    expect(await fetchLocaleMessages('fr')).toEqual(fr)
+  })
+
+  it('shares one request between calls', () => {
+    expect(fetchLocaleMessages('zh-TW')).toBe(fetchLocaleMessages('zh-TW'))
+  })
+})
+
+describe('isMessageLanguage', () => {
+  it('accepts only locales with messages', () => {
+    expect(isMessageLanguage('zh-CN')).toBe(true)
+    expect(isMessageLanguage('de')).toBe(false)
+  })
+})
+
+describe('loadLocaleMessages', () => {
+  it('adds a locale to i18n and reports it as loading meanwhile', async () => {
+    expect(i18n.global.availableLocales).not.toContain('zh-CN')
+
+    const loading = loadLocaleMessages('zh-CN')
+    expect(loadingLocale.value).toBe('zh-CN')
+    await loading
+
+    expect(loadingLocale.value).toBeNull()
+    expect(i18n.global.availableLocales).toContain('zh-CN')
+    expect(i18n.global.t('nav.home', {}, { locale: 'zh-CN' })).toBe('首页')
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { PACKAGE_CHANNELS, getChannelInstructions } from '@/utils/packageChannels'
+import { APP_CONFIG } from '@/config/app'
+import type { ReleaseAsset } from '@/types/download'
+
+const patterns = APP_CONFIG.downloads.assetPatterns
+
+const asset = (name: string): ReleaseAsset => ({
+  name,
+  url: `https://example.com/download/${name}`,
+  size: 1000,
+  downloadCount: 0,
+})
+
+const release = {
+  version: 'v1.3.0',
+  assets: [
+    asset('EchoNote-Setup-1.3.0.exe'),
+    asset('echonote_1.3.0_arm64.deb'),
+    asset('echonote_1.3.0_amd64.deb'),
+    asset('echonote-1.3.0.aarch64.rpm'),
+    asset('echonote-1.3.0.x86_64.rpm'),
+  ],
+}
+
+const instructionsFor = (id: string, options = {}) =>
+  getChannelInstructions(release, patterns, options).find(({ channel }) => channel.id === id)
+
+describe('PACKAGE_CHANNELS', () => {
+  it('lists every channel once', () => {
+    const ids = PACKAGE_CHANNELS.map(channel => channel.id)
+
+    expect(ids).toEqual(['winget', 'scoop', 'homebrew', 'apt', 'rpm', 'flatpak', 'aur'])
+  })
+})
+
+describe('getChannelInstructions', () => {
+  it('pins package manager commands to the release version', () => {
+    expect(instructionsFor('winget')?.commands).toEqual({
+      install: 'winget install --id EchoNote.EchoNote --exact --version 1.3.0',
+      upgrade: 'winget upgrade --id EchoNote.EchoNote --exact --version 1.3.0',
+      uninstall: 'winget uninstall --id EchoNote.EchoNote --exact',
+    })
+    expect(instructionsFor('scoop')?.commands.install).toContain('extras/echonote@1.3.0')
+    expect(instructionsFor('scoop')?.commands.upgrade).toBe('scoop update echonote')
+  })
+
+  it('adds the apt repository before installing from it', () => {
+    const commands = instructionsFor('apt')?.commands
+
+    expect(commands?.install).toContain('/etc/apt/sources.list.d/echonote.list')
+    expect(commands?.install).toContain('sudo apt install echonote=1.3.0')
+    expect(commands?.upgrade).toContain('sudo apt install --only-upgrade echonote=1.3.0')
+  })
+
+  it('installs the release file for the architecture', () => {
+    expect(instructionsFor('rpm', { architecture: 'arm64' })?.commands.install).toBe(
+      'sudo dnf install https://example.com/download/echonote-1.3.0.aarch64.rpm'
+    )
+    expect(instructionsFor('rpm')?.commands.upgrade).toBe(
+      'sudo dnf upgrade https://example.com/download/echonote-1.3.0.x86_64.rpm'
+    )
+  })
+
+  it('leaves out channels that need a file the release lacks', () => {
+    const ids = getChannelInstructions(
+      { version: '1.3.0', assets: [asset('EchoNote-1.3.0.AppImage')] },
+      patterns
+    ).map(({ channel }) => channel.id)
+
+    expect(ids).not.toContain('rpm')
+    expect(ids).toContain('apt')
+    expect(ids).toContain('flatpak')
+  })
+
+  it('leaves out channels a release predates', () => {
+    const ids = getChannelInstructions({ version: 'v1.1.5', assets: [] }, patterns).map(
+      ({ channel }) => channel.id
+    )
+
+    expect(ids).toEqual(['winget', 'scoop', 'homebrew', 'apt', 'aur'])
+  })
+})
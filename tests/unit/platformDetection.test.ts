@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkSystemRequirements,
+  detectSystem,
+  formatOsRequirement,
+  formatSystemName,
+  isDesktopSystem,
+  parseClientHints,
+  parseUserAgent,
+  toDownloadArchitecture,
+} from '@/utils/platformDetection'
+import { APP_CONFIG } from '@/config/app'
+
+const UA = {
+  windows10:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36',
+  windows7x86: 'Mozilla/5.0 (Windows NT 6.1) AppleWebKit/537.36 Chrome/109.0 Safari/537.36',
+  mac: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 Version/17.4 Safari/605.1.15',
+  ubuntu: 'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:126.0) Gecko/20100101 Firefox/126.0',
+  linuxArm: 'Mozilla/5.0 (X11; Linux aarch64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36',
+  raspberry: 'Mozilla/5.0 (X11; Linux armv7l) AppleWebKit/537.36 Chrome/126.0 Safari/537.36',
+  android:
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/126.0 Mobile Safari/537.36',
+  iphone:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 Version/17.5 Mobile/15E148 Safari/604.1',
+  ipad: 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 Version/16.6 Mobile/15E148 Safari/604.1',
+}
+
+describe('parseUserAgent', () => {
+  it.each([
+    [UA.windows10, { platform: 'windows', architecture: 'x64', osVersion: '10' }],
+    [UA.windows7x86, { platform: 'windows', architecture: 'x86', osVersion: '7' }],
+    [UA.mac, { platform: 'macos', architecture: undefined, osVersion: '10.15.7' }],
+    [UA.ubuntu, { platform: 'linux', architecture: 'x64', distro: 'ubuntu' }],
+    [UA.linuxArm, { platform: 'linux', architecture: 'arm64', distro: undefined }],
+    [UA.raspberry, { platform: 'linux', architecture: 'arm' }],
+    [UA.android, { platform: 'android', osVersion: '14' }],
+    [UA.iphone, { platform: 'ios', osVersion: '17.5' }],
+    [UA.ipad, { platform: 'ios', osVersion: '16.6' }],
+  ])('parses %s', (userAgent, expected) => {
+    expect(parseUserAgent(userAgent)).toMatchObject({ ...expected, source: 'user-agent' })
+  })
+
+  it('reports unknown agents as such instead of guessing', () => {
+    expect(parseUserAgent('curl/8.0')).toEqual({ platform: 'unknown', source: 'user-agent' })
+    expect(formatSystemName(parseUserAgent(''))).toBe('Unknown system')
+  })
+})
+
+describe('parseClientHints', () => {
+  it('tells Windows 11 from Windows 10', () => {
+    const hints = { platform: 'Windows', architecture: 'x86', bitness: '64' }
+
+    expect(parseClientHints({ ...hints, platformVersion: '15.0.0' }, UA.windows10)).toMatchObject({
+      osVersion: '11',
+      architecture: 'x64',
+      source: 'client-hints',
+    })
+    expect(parseClientHints({ ...hints, platformVersion: '10.0.0' }, UA.windows10).osVersion).toBe(
+      '10'
+    )
+    expect(parseClientHints({ ...hints, platformVersion: '0.3.0' }, UA.windows10).osVersion).toBe(
+      '8.1'
+    )
+  })
+
+  it('reads the real macOS version and Apple Silicon', () => {
+    expect(
+      parseClientHints(
+        { platform: 'macOS', platformVersion: '14.5.0', architecture: 'arm', bitness: '64' },
+        UA.mac
+      )
+    ).toMatchObject({ platform: 'macos', osVersion: '14.5.0', architecture: 'arm64' })
+  })
+
+  it('keeps the distro from the user agent and ignores the kernel version', () => {
+    expect(
+      parseClientHints(
+        { platform: 'Linux', platformVersion: '6.8.0', architecture: 'x86', bitness: '64' },
+        UA.ubuntu
+      )
+    ).toMatchObject({ platform: 'linux', distro: 'ubuntu', osVersion: undefined })
+  })
+})
+
+describe('detectSystem', () => {
+  it('asks for high entropy Client Hints', async () => {
+    const system = await detectSystem({
+      userAgent: UA.mac,
+      userAgentData: {
+        getHighEntropyValues: async () => ({
+          platform: 'macOS',
+          platformVersion: '13.0.0',
+          architecture: 'x86',
+        }),
+      },
+    })
+
+    expect(system).toMatchObject({ architecture: 'x64', osVersion: '13.0.0' })
+  })
+
+  it('falls back to the user agent when hints are missing or refused', async () => {
+    expect(await detectSystem({ userAgent: UA.ubuntu })).toMatchObject({ source: 'user-agent' })
+    expect(
+      await detectSystem({
+        userAgent: UA.ubuntu,
+        userAgentData: { getHighEntropyValues: () => Promise.reject(new Error('denied')) },
+      })
+    ).toMatchObject({ platform: 'linux', source: 'user-agent' })
+  })
+
+  it('tells an iPad asking for the desktop site from a Mac', async () => {
+    expect(await detectSystem({ userAgent: UA.mac, maxTouchPoints: 5 })).toMatchObject({
+      platform: 'ios',
+    })
+    expect(await detectSystem({ userAgent: UA.mac, maxTouchPoints: 0 })).toMatchObject({
+      platform: 'macos',
+    })
+  })
+
+  it('reads Android from Client Hints', async () => {
+    const system = await detectSystem({
+      userAgent: UA.android,
+      userAgentData: { getHighEntropyValues: async () => ({ platform: 'Android' }) },
+    })
+
+    expect(system).toMatchObject({ platform: 'android', source: 'client-hints' })
+    expect(isDesktopSystem(system)).toBe(false)
+  })
+})
+
+describe('checkSystemRequirements', () => {
+  const requirements = APP_CONFIG.systemRequirements
+
+  it('flags old systems and 32-bit architectures', () => {
+    const system = parseUserAgent(UA.windows7x86)
+
+    expect(checkSystemRequirements(system, requirements.windows.os)).toEqual([
+      { kind: 'architecture', architecture: 'x86', supported: ['x64', 'arm64'] },
+      { kind: 'osVersion', system: 'Windows 7', requirement: 'Windows 10' },
+    ])
+  })
+
+  it('checks Linux distros against their own minimum', () => {
+    const ubuntu = { platform: 'linux', distro: 'ubuntu', source: 'user-agent' } as const
+
+    expect(
+      checkSystemRequirements({ ...ubuntu, osVersion: '16.04' }, requirements.linux.os)
+    ).toMatchObject([{ kind: 'osVersion', system: 'Ubuntu 16.04' }])
+    expect(
+      checkSystemRequirements({ ...ubuntu, osVersion: '22.04' }, requirements.linux.os)
+    ).toEqual([])
+  })
+
+  it('gives unknown versions the benefit of the doubt', () => {
+    expect(checkSystemRequirements(parseUserAgent(UA.mac), requirements.macos.os)).toEqual([])
+    expect(checkSystemRequirements(parseUserAgent(UA.linuxArm), requirements.linux.os)).toEqual([])
+  })
+})
+
+describe('helpers', () => {
+  it('maps only 64-bit architectures to downloads', () => {
+    expect(toDownloadArchitecture('arm64')).toBe('arm64')
+    expect(toDownloadArchitecture('x86')).toBeUndefined()
+  })
+
+  it('formats system names', () => {
+    expect(formatSystemName(parseUserAgent(UA.windows10))).toBe('Windows 10')
+    expect(formatSystemName(parseUserAgent(UA.linuxArm))).toBe('Linux')
+  })
+
+  it('formats the oldest supported releases', () => {
+    const requirements = APP_CONFIG.systemRequirements
+
+    expect(formatOsRequirement('macos', requirements.macos.os)).toBe('macOS 10.14+')
+    expect(formatOsRequirement('linux', requirements.linux.os)).toBe(
+      'Ubuntu 18.04+ / Debian 10+ / Fedora 32+'
+    )
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  getFeedFileName,
+  renderReleaseHtml,
+  type ReleaseFeedOptions,
+} from '@/utils/releaseFeeds'
+import type { ChangelogRelease } from '@/types/changelog'
+
+const release = (overrides: Partial<ChangelogRelease>): ChangelogRelease => ({
+  version: 'v1.2.0',
+  date: '2025-11-01T00:00:00Z',
+  title: 'Calendar & sync',
+  body: '### Features\n- Faster <transcription>\n  - On-device\n\n### Bug Fixes\n- fix(sync): Google Calendar',
+  url: 'https://github.com/echonote/echonote/releases/tag/v1.2.0',
+  prerelease: false,
+  assets: [],
+  ...overrides,
+})
+
+const options = (overrides: Partial<ReleaseFeedOptions> = {}): ReleaseFeedOptions => ({
+  releases: [
+    release({ version: 'v1.3.0-beta.1', date: '2025-12-01T00:00:00Z', prerelease: true }),
+    release({}),
+  ],
+  siteUrl: 'https://example.com/echonote',
+  locale: 'en',
+  title: 'EchoNote releases',
+  description: 'New versions',
+  sectionLabels: {
+    breaking: 'Breaking changes',
+    features: 'Features',
+    improvements: 'Improvements',
+    bugFixes: 'Bug fixes',
+    other: 'Other changes',
+  },
+  ...overrides,
+})
+
+describe('getFeedFileName', () => {
+  it('suffixes every locale but the default one', () => {
+    expect(getFeedFileName('rss', 'en')).toBe('releases.xml')
+    expect(getFeedFileName('atom', 'zh-CN')).toBe('releases.zh-CN.atom')
+    expect(getFeedFileName('json', 'fr', 'fr')).toBe('releases.json')
+  })
+})
+
+describe('renderReleaseHtml', () => {
+  it('groups notes under the localized headings and escapes their text', () => {
+    const html = renderReleaseHtml(release({}), options({}).sectionLabels)
+
+    expect(html).toBe(
+      '<h3>Features</h3><ul><li>Faster &lt;transcription&gt;<ul><li>On-device</li></ul></li></ul>' +
+        '<h3>Bug fixes</h3><ul><li>sync: Google Calendar</li></ul>'
+    )
+  })
+})
+
+describe('feeds', () => {
+  it('builds an RSS 2.0 channel linking to the permalinks', () => {
+    const xml = buildRssFeed(options())
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+    expect(doc.querySelector('parsererror')).toBe(null)
+    expect(doc.querySelector('channel > title')?.textContent).toBe('EchoNote releases')
+    expect(doc.querySelector('channel > language')?.textContent).toBe('en')
+    expect(Array.from(doc.querySelectorAll('item > link')).map(link => link.textContent)).toEqual([
+      'https://example.com/echonote/changelog/v1.3.0-beta.1',
+      'https://example.com/echonote/changelog/v1.2.0',
+    ])
+    expect(doc.querySelector('item > title')?.textContent).toBe('v1.3.0-beta.1: Calendar & sync')
+    expect(doc.querySelector('item > category')?.textContent).toBe('prerelease')
+    expect(doc.querySelector('item > description')?.textContent).toContain('<h3>Features</h3>')
+  })
+
+  it('builds an Atom feed for a locale', () => {
+    const xml = buildAtomFeed(options({ locale: 'zh-CN', title: 'EchoNote 版本发布' }))
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+    expect(doc.querySelector('parsererror')).toBe(null)
+    expect(doc.documentElement.getAttribute('xml:lang')).toBe('zh-CN')
+    expect(doc.querySelector('feed > title')?.textContent).toBe('EchoNote 版本发布')
+    expect(doc.querySelector('feed > updated')?.textContent).toBe('2025-12-01T00:00:00Z')
+    expect(doc.querySelector('feed > link[rel="self"]')?.getAttribute('href')).toBe(
+      'https://example.com/echonote/releases.zh-CN.atom'
+    )
+    expect(doc.querySelectorAll('entry')).toHaveLength(2)
+    expect(doc.querySelector('entry > id')?.textContent).toBe(
+      'https://example.com/echonote/changelog/v1.3.0-beta.1'
+    )
+  })
+
+  it('builds a JSON Feed 1.1 document', () => {
+    const feed = JSON.parse(buildJsonFeed(options()))
+
+    expect(feed).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'EchoNote releases',
+      home_page_url: 'https://example.com/echonote/changelog',
+      feed_url: 'https://example.com/echonote/releases.json',
+    })
+    expect(feed.items[0]).toMatchObject({
+      id: 'https://example.com/echonote/changelog/v1.3.0-beta.1',
+      date_published: '2025-12-01T00:00:00Z',
+      tags: ['prerelease'],
+    })
+    expect(feed.items[1].tags).toBeUndefined()
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import {
+  categorizeHeading,
+  extractMentions,
+  extractReferences,
+  parseReleaseNotes,
+  parseReleaseNotesDocument,
+} from '@/utils/releaseNotes'
+
+const GENERATED_NOTES = [
+  "## What's Changed",
+  '* feat(calendar): add Outlook sync by @alice in https://github.com/acme/app/pull/41',
+  '* fix!: drop the legacy config format by @bob in https://github.com/acme/app/pull/42',
+  '* docs: clarify install steps by @alice in https://github.com/acme/app/pull/43',
+  '',
+  '## New Contributors',
+  '* @bob made their first contribution in https://github.com/acme/app/pull/42',
+  '',
+  '**Full Changelog**: https://github.com/acme/app/compare/v1.0.0...v1.1.0',
+].join('\n')
+
+describe('parseReleaseNotesDocument', () => {
+  it('keeps bullets under their heading instead of matching words in the text', () => {
+    const notes = parseReleaseNotes(
+      ['### Bug Fixes', '- Fixed the feature toggle', '- Improved breaking news alerts'].join('\n')
+    )
+
+    expect(notes.bugFixes).toEqual(['Fixed the feature toggle', 'Improved breaking news alerts'])
+    expect(notes.features).toEqual([])
+    expect(notes.breaking).toEqual([])
+  })
+
+  it('records heading levels and nests bullets', () => {
+    const { sections } = parseReleaseNotesDocument(
+      [
+        'Intro paragraph',
+        '## Features',
+        '- Calendar',
+        '  - Google sync',
+        '    - Two-way updates',
+        '  - Outlook sync',
+        '- Transcription',
+        '### Performance',
+        '1. Faster startup',
+      ].join('\n')
+    )
+
+    expect(sections.map(({ heading, level, category }) => [heading, level, category])).toEqual([
+      [null, 0, null],
+      ['Features', 2, 'features'],
+      ['Performance', 3, 'improvements'],
+    ])
+    expect(sections[0]?.paragraphs).toEqual(['Intro paragraph'])
+
+    const [calendar, transcription] = sections[1]?.items ?? []
+    expect(calendar?.children.map(child => child.text)).toEqual(['Google sync', 'Outlook sync'])
+    expect(calendar?.children[0]?.children[0]?.text).toBe('Two-way updates')
+    expect(transcription?.children).toEqual([])
+  })
+
+  it('understands Conventional Commit prefixes', () => {
+    const [feature, breaking, docs] =
+      parseReleaseNotesDocument(GENERATED_NOTES).sections[0]?.items ?? []
+
+    expect(feature).toMatchObject({
+      text: 'add Outlook sync',
+      commitType: 'feat',
+      scope: 'calendar',
+      breaking: false,
+      category: 'features',
+    })
+    expect(breaking).toMatchObject({
+      text: 'drop the legacy config format',
+      commitType: 'fix',
+      breaking: true,
+      category: 'breaking',
+    })
+    expect(docs?.category).toBe('other')
+  })
+
+  it('reads the blocks GitHub generates', () => {
+    const document = parseReleaseNotesDocument(GENERATED_NOTES)
+
+    expect(document.sections.map(section => section.heading)).toEqual(["What's Changed"])
+    expect(document.sections[0]?.items[0]).toMatchObject({
+      authors: ['alice'],
+      references: [
+        {
+          kind: 'pull',
+          number: 41,
+          repository: 'acme/app',
+          url: 'https://github.com/acme/app/pull/41',
+        },
+      ],
+    })
+    expect(document.contributors).toEqual(['alice', 'bob'])
+    expect(document.newContributors).toEqual(['bob'])
+    expect(document.fullChangelogUrl).toBe('https://github.com/acme/app/compare/v1.0.0...v1.1.0')
+  })
+
+  it('treats BREAKING CHANGE prefixes and bold headings', () => {
+    const notes = parseReleaseNotes(
+      ['**Improvements**', '- BREAKING CHANGE: settings moved (#7)', '- Smaller installer'].join(
+        '\n'
+      )
+    )
+
+    expect(notes.breaking).toEqual(['settings moved'])
+    expect(notes.improvements).toEqual(['Smaller installer'])
+    expect(notes.document.categories.breaking[0]?.references).toEqual([
+      { kind: 'issue', number: 7, repository: null, url: null },
+    ])
+  })
+
+  it('ignores code blocks and HTML comments', () => {
+    const notes = parseReleaseNotes(
+      [
+        '<!-- Release template -->',
+        '## Features',
+        '```',
+        '- not an item',
+        '```',
+        '- Real item',
+      ].join('\n')
+    )
+
+    expect(notes.features).toEqual(['Real item'])
+  })
+
+  it('handles an empty body', () => {
+    expect(parseReleaseNotes('')).toMatchObject({ features: [], other: [] })
+  })
+})
+
+describe('categorizeHeading', () => {
+  it.each([
+    ['🚀 New Features', 'features'],
+    ['Bug Fixes', 'bugFixes'],
+    ['Technical Improvements', 'improvements'],
+    ['⚠️ Breaking Changes', 'breaking'],
+    ["What's Changed", null],
+    ['Highlights', null],
+  ])('%s -> %s', (heading, category) => {
+    expect(categorizeHeading(heading)).toBe(category)
+  })
+})
+
+describe('extractReferences / extractMentions', () => {
+  it('finds references and mentions outside code and URLs', () => {
+    const text =
+      'Fix `#define` parsing, see acme/lib#3 and #12, thanks @carol (mail me@example.com)'
+
+    expect(extractReferences(text)).toEqual([
+      { kind: 'issue', number: 3, repository: 'acme/lib', url: null },
+      { kind: 'issue', number: 12, repository: null, url: null },
+    ])
+    expect(extractMentions(text)).toEqual(['carol'])
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyVerification,
+  digestToSha256,
+  findChecksumAssets,
+  findSignatureAsset,
+  getVerificationCommands,
+  parseChecksums,
+  verifyAssets,
+} from '@/utils/releaseVerification'
+import { APP_CONFIG } from '@/config/app'
+import type { ChangelogRelease } from '@/types/changelog'
+import type { ReleaseAsset } from '@/types/download'
+
+const patterns = APP_CONFIG.downloads.verificationPatterns
+
+const HASH_A = 'a'.repeat(64)
+const HASH_B = 'B'.repeat(64)
+
+const asset = (name: string): ReleaseAsset => ({
+  name,
+  url: `https://example.com/download/${name}`,
+  size: 1000,
+  downloadCount: 0,
+})
+
+describe('parseChecksums', () => {
+  it('reads sha256sum and shasum --tag output', () => {
+    const text = [
+      `${HASH_A}  EchoNote-Setup-1.3.0.exe`,
+      `${HASH_B} *dist/EchoNote-1.3.0.dmg`,
+      `SHA256 (echonote_1.3.0_amd64.deb) = ${HASH_A}`,
+      '',
+      '# not a checksum',
+    ].join('\r\n')
+
+    expect(parseChecksums(text)).toEqual({
+      'EchoNote-Setup-1.3.0.exe': HASH_A,
+      'EchoNote-1.3.0.dmg': 'b'.repeat(64),
+      'echonote_1.3.0_amd64.deb': HASH_A,
+    })
+  })
+
+  it('attributes a bare hash to the file it was published for', () => {
+    expect(parseChecksums(`${HASH_A}\n`, 'EchoNote.AppImage')).toEqual({
+      'EchoNote.AppImage': HASH_A,
+    })
+    expect(parseChecksums(`${HASH_A}\n`)).toEqual({})
+  })
+})
+
+describe('release assets', () => {
+  const assets = [
+    asset('EchoNote-1.3.0.dmg'),
+    asset('EchoNote-1.3.0.dmg.asc'),
+    asset('EchoNote-1.3.0.AppImage'),
+    asset('EchoNote-1.3.0.AppImage.sha256'),
+    asset('SHA256SUMS'),
+    asset('SHA256SUMS.sig'),
+  ]
+
+  it('finds checksum manifests and per-file checksums, not their signatures', () => {
+    expect(
+      findChecksumAssets(assets, patterns).map(({ asset, fileName }) => [asset.name, fileName])
+    ).toEqual([
+      ['EchoNote-1.3.0.AppImage.sha256', 'EchoNote-1.3.0.AppImage'],
+      ['SHA256SUMS', undefined],
+    ])
+  })
+
+  it('finds the signature published next to an asset', () => {
+    expect(findSignatureAsset('EchoNote-1.3.0.dmg', assets, patterns)?.name).toBe(
+      'EchoNote-1.3.0.dmg.asc'
+    )
+    expect(findSignatureAsset('EchoNote-1.3.0.AppImage', assets, patterns)).toBeUndefined()
+  })
+
+  it('attaches hashes and signatures', () => {
+    const [dmg, , appImage] = verifyAssets(assets, { 'EchoNote-1.3.0.dmg': HASH_A }, patterns)
+
+    expect(dmg).toMatchObject({
+      sha256: HASH_A,
+      signatureUrl: 'https://example.com/download/EchoNote-1.3.0.dmg.asc',
+    })
+    expect(appImage).toEqual(asset('EchoNote-1.3.0.AppImage'))
+  })
+
+  it('records hashes on changelog releases', () => {
+    const release: ChangelogRelease = {
+      version: 'v1.3.0',
+      date: '2025-12-01T00:00:00Z',
+      title: 'v1.3.0',
+      body: '',
+      url: 'https://example.com/releases/v1.3.0',
+      prerelease: false,
+      assets: ['EchoNote-1.3.0.dmg', 'EchoNote-1.3.0.dmg.asc'].map(name => ({
+        name,
+        downloadUrl: `https://example.com/download/${name}`,
+        downloadCount: 3,
+        size: 1000,
+      })),
+    }
+
+    const verified = applyVerification(release, { 'EchoNote-1.3.0.dmg': HASH_A }, patterns)
+
+    expect(verified.assets[0]).toEqual({
+      ...release.assets[0],
+      sha256: HASH_A,
+      signatureUrl: 'https://example.com/download/EchoNote-1.3.0.dmg.asc',
+    })
+    expect(verified.assets[1]).toEqual(release.assets[1])
+  })
+
+  it('reads GitHub asset digests', () => {
+    expect(digestToSha256(`sha256:${HASH_B}`)).toBe('b'.repeat(64))
+    expect(digestToSha256(`sha512:${HASH_A}`)).toBe(null)
+    expect(digestToSha256(null)).toBe(null)
+  })
+})
+
+describe('getVerificationCommands', () => {
+  const verified = {
+    name: 'EchoNote-1.3.0.dmg',
+    sha256: HASH_A,
+    signatureUrl: 'https://example.com/download/EchoNote-1.3.0.dmg.asc',
+  }
+
+  it('checks against the published hash with each platform tool', () => {
+    expect(getVerificationCommands('macos', verified).checksum).toContain(
+      `echo "${HASH_A}  EchoNote-1.3.0.dmg" | shasum -a 256 --check`
+    )
+    expect(getVerificationCommands('linux', verified).checksum).toContain('sha256sum --check')
+    expect(getVerificationCommands('windows', verified).checksum).toContain(
+      `(Get-FileHash .\\EchoNote-1.3.0.dmg -Algorithm SHA256).Hash -eq '${HASH_A}'`
+    )
+  })
+
+  it('prints the hash when none was published', () => {
+    expect(getVerificationCommands('linux', { name: 'a.AppImage' })).toEqual({
+      checksum: expect.stringContaining('sha256sum a.AppImage'),
+      signature: null,
+    })
+  })
+
+  it('downloads and verifies the signature', () => {
+    expect(getVerificationCommands('macos', verified).signature).toContain(
+      'gpg --verify EchoNote-1.3.0.dmg.asc EchoNote-1.3.0.dmg'
+    )
+    expect(getVerificationCommands('windows', verified).signature).toContain(
+      `Invoke-WebRequest -Uri ${verified.signatureUrl} -OutFile EchoNote-1.3.0.dmg.asc`
+    )
+  })
+})
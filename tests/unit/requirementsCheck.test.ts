@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  countMicrophones,
+  evaluateRequirements,
+  readDeviceCapabilities,
+} from '@/utils/requirementsCheck'
+import { APP_CONFIG } from '@/config/app'
+import type { RequirementCheck } from '@/types/platform'
+
+const windows = APP_CONFIG.systemRequirements.windows
+
+const statuses = (checks: RequirementCheck[]) =>
+  Object.fromEntries(checks.map(check => [check.id, check.status]))
+
+const namedError = (name: string) => Object.assign(new Error(name), { name })
+
+describe('evaluateRequirements', () => {
+  it('passes a device that meets every requirement', () => {
+    const checks = evaluateRequirements(windows, {
+      system: { platform: 'windows', architecture: 'x64', osVersion: '11', source: 'client-hints' },
+      memoryGB: 8,
+      cores: 8,
+      storageQuotaMB: 100_000,
+      microphones: 1,
+    })
+
+    expect(statuses(checks)).toEqual({
+      os: 'pass',
+      architecture: 'pass',
+      memory: 'pass',
+      cpu: 'pass',
+      storage: 'pass',
+      microphone: 'pass',
+    })
+    expect(checks[0]?.detected).toBe('Windows 11')
+  })
+
+  it('warns about a clear shortfall', () => {
+    const checks = evaluateRequirements(windows, {
+      system: { platform: 'windows', architecture: 'x86', osVersion: '7', source: 'user-agent' },
+      memoryGB: 2,
+      cores: 1,
+      microphones: 0,
+    })
+
+    expect(statuses(checks)).toMatchObject({
+      os: 'warn',
+      architecture: 'warn',
+      memory: 'warn',
+      cpu: 'warn',
+      microphone: 'warn',
+    })
+  })
+
+  it('reports unknown for anything the browser does not tell', () => {
+    const checks = evaluateRequirements(APP_CONFIG.systemRequirements.linux, {
+      system: { platform: 'linux', source: 'user-agent' },
+      storageQuotaMB: 100,
+    })
+
+    expect(new Set(checks.map(check => check.status))).toEqual(new Set(['unknown']))
+  })
+})
+
+describe('readDeviceCapabilities', () => {
+  it('reads memory, cores and the storage quota', async () => {
+    const capabilities = await readDeviceCapabilities({
+      deviceMemory: 4,
+      hardwareConcurrency: 6,
+      storage: { estimate: () => Promise.resolve({ quota: 2048 * 1024 * 1024 }) },
+    })
+
+    expect(capabilities).toEqual({ memoryGB: 4, cores: 6, storageQuotaMB: 2048 })
+  })
+
+  it('leaves out what the browser hides', async () => {
+    const capabilities = await readDeviceCapabilities({
+      hardwareConcurrency: 0,
+      storage: { estimate: () => Promise.reject(new Error('blocked')) },
+    })
+
+    expect(capabilities).toEqual({
+      memoryGB: undefined,
+      cores: undefined,
+      storageQuotaMB: undefined,
+    })
+  })
+})
+
+describe('countMicrophones', () => {
+  it('counts audio inputs once access is allowed and stops the stream', async () => {
+    const stop = vi.fn()
+    const count = await countMicrophones({
+      getUserMedia: () => Promise.resolve({ getTracks: () => [{ stop }] }),
+      enumerateDevices: () =>
+        Promise.resolve([{ kind: 'audioinput' }, { kind: 'videoinput' }, { kind: 'audioinput' }]),
+    })
+
+    expect(count).toBe(2)
+    expect(stop).toHaveBeenCalled()
+  })
+
+  it('tells a missing microphone from a refusal', async () => {
+    const enumerateDevices = () => Promise.resolve([])
+
+    await expect(
+      countMicrophones({
+        getUserMedia: () => Promise.reject(namedError('NotFoundError')),
+        enumerateDevices,
+      })
+    ).resolves.toBe(0)
+    await expect(
+      countMicrophones({
+        getUserMedia: () => Promise.reject(namedError('NotAllowedError')),
+        enumerateDevices,
+      })
+    ).resolves.toBeNull()
+  })
+
+  it('reports no answer when the devices cannot be listed', async () => {
+    await expect(
+      countMicrophones({
+        getUserMedia: () => Promise.resolve({ getTracks: () => [] }),
+        enumerateDevices: () => Promise.reject(namedError('NotAllowedError')),
+      })
+    ).resolves.toBeNull()
+  })
+})
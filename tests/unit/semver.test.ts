@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareVersions,
+  isPrereleaseVersion,
+  parseVersion,
+  sortByVersionDesc,
+} from '@/utils/semver'
+
+describe('parseVersion', () => {
+  it('parses tags with prerelease and build metadata', () => {
+    expect(parseVersion('v1.3.0-beta.2+build.5')).toEqual({
+      major: 1,
+      minor: 3,
+      patch: 0,
+      prerelease: ['beta', 2],
+      build: ['build', '5'],
+      raw: 'v1.3.0-beta.2+build.5',
+    })
+  })
+
+  it('fills in a missing minor and patch', () => {
+    expect(parseVersion('2')).toMatchObject({ major: 2, minor: 0, patch: 0 })
+  })
+
+  it('rejects anything else', () => {
+    expect(parseVersion('latest')).toBe(null)
+    expect(parseVersion('1.2.3.4')).toBe(null)
+  })
+})
+
+describe('compareVersions', () => {
+  it('orders by semver precedence', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      'v1.2.0',
+      '1.10.0',
+    ]
+
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareVersions(ordered[i - 1] ?? '', ordered[i] ?? '')).toBeLessThan(0)
+      expect(compareVersions(ordered[i] ?? '', ordered[i - 1] ?? '')).toBeGreaterThan(0)
+    }
+  })
+
+  it('ignores the "v" prefix and build metadata', () => {
+    expect(compareVersions('v1.2.0', '1.2.0+build.7')).toBe(0)
+  })
+
+  it('sorts unparsable versions below valid ones', () => {
+    expect(compareVersions('nightly', '0.0.1')).toBeLessThan(0)
+  })
+})
+
+describe('helpers', () => {
+  it('detects prerelease versions', () => {
+    expect(isPrereleaseVersion('1.3.0-beta.2')).toBe(true)
+    expect(isPrereleaseVersion('1.3.0')).toBe(false)
+  })
+
+  it('sorts newest first', () => {
+    const sorted = sortByVersionDesc([
+      { version: 'v1.1.0' },
+      { version: 'v1.3.0-beta.2' },
+      { version: 'v1.2.0' },
+      { version: 'v1.3.0' },
+    ])
+
+    expect(sorted.map(item => item.version)).toEqual([
+      'v1.3.0',
+      'v1.3.0-beta.2',
+      'v1.2.0',
+      'v1.1.0',
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { generateTranslationReport } from '@/utils/translationManager'
+import en from '@/locales/en.json'
+import fr from '@/locales/fr.json'
+import zhCN from '@/locales/zh-CN.json'
+import zhTW from '@/locales/zh-TW.json'
+import type { MessageSchema } from '@/i18n'
+
+// Reports for a single string, as `{ message: text }`
+const reportFor = (source: string, target: string, locale = 'fr') =>
+  generateTranslationReport(
+    { message: source } as unknown as MessageSchema,
+    { message: target },
+    locale
+  )
+
+const issueTypes = async (source: string, target: string, locale?: string) =>
+  (await reportFor(source, target, locale)).issues.map(issue => issue.type)
+
+describe('generateTranslationReport', () => {
+  it('reports dropped and unknown placeholders', async () => {
+    const report = await reportFor('{count} downloads for {platform}', '{count} téléchargements')
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        type: 'inconsistent',
+        severity: 'high',
+        message: 'Placeholders differ from English: missing {platform}',
+      }),
+    ])
+    expect(report.consistency).toBe(0)
+    expect(await issueTypes('Hello {name}', 'Bonjour {nom}')).toEqual(['inconsistent'])
+  })
+
+  it('accepts plural forms that repeat a placeholder a different number of times', async () => {
+    expect(await issueTypes('{count} core | {count} cores', '{count} 个核心', 'zh-CN')).toEqual([])
+  })
+
+  it('reports markup that differs from English', async () => {
+    expect(await issueTypes('Read the **guide**', 'Lisez le guide')).toEqual(['inconsistent'])
+    expect(await issueTypes('<b>New</b> release', '<b>Nouvelle</b> version')).toEqual([])
+  })
+
+  it('reports strings left in English, except names and cognates', async () => {
+    expect(await issueTypes('Download now', 'Download now')).toEqual(['untranslated'])
+    expect(await issueTypes('GitHub Issues', 'GitHub Issues')).toEqual([])
+    expect(await issueTypes('Architecture', 'Architecture')).toEqual([])
+    expect(await issueTypes('Architecture', 'Architecture', 'zh-CN')).toEqual(['untranslated'])
+  })
+
+  it('reports translations much longer than the locale usually needs', async () => {
+    const report = await reportFor('Changelog', 'Historique complet des modifications')
+
+    expect(report.issues.map(issue => issue.type)).toEqual(['layout'])
+    expect(report.layoutCompatibility).toBe(0)
+    expect(await issueTypes('Changelog', '更新日志', 'zh-CN')).toEqual([])
+  })
+
+  it('checks punctuation conventions of the locale', async () => {
+    expect(await issueTypes('Note: saved', 'Remarque: enregistré')).toEqual(['cultural'])
+    expect(await issueTypes('Note: saved', 'Remarque : enregistré')).toEqual([])
+    expect(await issueTypes('Loading...', '加载中...', 'zh-CN')).toEqual(['cultural'])
+    expect(await issueTypes('Loading...', '加载中…', 'zh-CN')).toEqual([])
+    expect(await issueTypes('Save', ' Enregistrer')).toEqual(['cultural'])
+  })
+
+  it('finds no placeholder or markup problems in the shipped locales', async () => {
+    for (const [locale, messages] of Object.entries({ fr, 'zh-CN': zhCN, 'zh-TW': zhTW })) {
+      const report = await generateTranslationReport(en, messages, locale)
+
+      expect(report.issues.filter(issue => issue.severity === 'high')).toEqual([])
+      expect(report.issues.filter(issue => issue.type === 'inconsistent')).toEqual([])
+    }
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { TRANSLATION_REPORT_FORMATTERS, findFailingLocales } from '@/utils/translationReportFormats'
+import type { TranslationReport } from '@/utils/translationManager'
+
+const report = (locale: string, overallScore: number): TranslationReport => ({
+  locale,
+  completeness: 100,
+  consistency: overallScore,
+  culturalAdaptation: 100,
+  layoutCompatibility: 100,
+  overallScore,
+  issues: [
+    {
+      path: 'nav.home',
+      type: 'inconsistent',
+      severity: 'high',
+      message: 'Placeholders differ from English: missing {count}',
+      suggestion: 'Use <b>exactly</b> {count}',
+    },
+  ],
+  missingKeys: [],
+  recommendations: ['Keep placeholders identical'],
+})
+
+const summary = { threshold: 95, reports: [report('fr', 97), report('zh-CN', 80)] }
+
+describe('findFailingLocales', () => {
+  it('lists locales below the threshold', () => {
+    expect(findFailingLocales(summary)).toEqual(['zh-CN'])
+  })
+})
+
+describe('TRANSLATION_REPORT_FORMATTERS', () => {
+  it('prints an aligned table with a status per locale', () => {
+    const lines = TRANSLATION_REPORT_FORMATTERS.table(summary).split('\n')
+
+    expect(lines[0]).toMatch(/^Locale\s+Complete\s+Consistent/)
+    expect(lines[2]).toMatch(/^fr\s+100%\s+97%.*\s1\s+ok$/)
+    expect(lines[3]).toMatch(/FAIL$/)
+  })
+
+  it('emits JSON with the failing locales', () => {
+    const json = JSON.parse(TRANSLATION_REPORT_FORMATTERS.json(summary))
+
+    expect(json.threshold).toBe(95)
+    expect(json.failing).toEqual(['zh-CN'])
+    expect(json.reports).toHaveLength(2)
+  })
+
+  it('emits a JUnit test case per locale with escaped issues', () => {
+    const xml = TRANSLATION_REPORT_FORMATTERS.junit(summary)
+
+    expect(xml).toContain('<testsuite name="translations" tests="2" failures="1">')
+    expect(xml).toContain('<failure message="Overall score 80% is below 95%">')
+    expect(xml.match(/<failure/g)).toHaveLength(1)
+    expect(xml).toContain('[high] inconsistent nav.home')
+  })
+
+  it('emits Markdown with a summary row and issue details', () => {
+    const markdown = TRANSLATION_REPORT_FORMATTERS.markdown(summary)
+
+    expect(markdown).toContain('| fr | 100% | 97% | 100% | 100% | 97% | 1 / 0 / 0 | ✅ |')
+    expect(markdown).toContain('| zh-CN |')
+    expect(markdown).toContain('❌')
+    expect(markdown).toContain('| high | inconsistent | `nav.home` |')
+  })
+})
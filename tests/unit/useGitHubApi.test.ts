@@ -1,10 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { useGitHubApi } from '@/composables/useGitHubApi'
+import { effectScope } from 'vue'
+import { clearGitHubStore, useGitHubApi } from '@/composables/useGitHubApi'
+import { createReplayFetch } from '@/utils/githubFixtures'
+import projectInfo from '@/data/project-info.json'
+import { repositoryFixtures } from '../fixtures/githubResponses'
 
 // Mock fetch
 const mockFetch = vi.fn()
 global.fetch = mockFetch
 
+const jsonResponse = (data: unknown) =>
+  new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
 // Mock localStorage
 const mockLocalStorage = {
   getItem: vi.fn(),
@@ -16,9 +26,22 @@ Object.defineProperty(window, 'localStorage', {
   value: mockLocalStorage,
 })
 
+const repoResponse = {
+  stargazers_count: 100,
+  forks_count: 20,
+  updated_at: '2025-01-01T00:00:00Z',
+}
+
+// Answer requests for the default repository from synthetic fixtures
+const replay = (responses: Parameters<typeof repositoryFixtures>[1] = { repo: repoResponse }) =>
+  mockFetch.mockImplementation(
+    createReplayFetch(repositoryFixtures('johnnyzhao5619/echonote', responses))
+  )
+
 describe('useGitHubApi', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    clearGitHubStore()
     vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
   })
 
@@ -48,32 +71,14 @@ describe('useGitHubApi', () => {
   })
 
   it('fetches stats successfully', async () => {
-    const mockRepoData = {
-      stargazers_count: 100,
-      forks_count: 20,
-      updated_at: '2025-01-01T00:00:00Z',
-    }
-
-    const mockContributors = [
-      { login: 'user1', contributions: 50 },
-      { login: 'user2', contributions: 30 },
-    ]
-
-    const mockReleases = [{ tag_name: 'v1.2.0', published_at: '2025-01-01T00:00:00Z' }]
-
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockRepoData),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockContributors),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockReleases),
-      })
+    replay({
+      repo: repoResponse,
+      contributors: [
+        { login: 'user1', contributions: 50 },
+        { login: 'user2', contributions: 30 },
+      ],
+      releases: [{ tag_name: 'v1.2.0', published_at: '2025-01-01T00:00:00Z' }],
+    })
 
     const { fetchStats, stats, isLoading } = useGitHubApi()
 
@@ -81,7 +86,8 @@ describe('useGitHubApi', () => {
 
     const result = await fetchStats()
 
-    expect(result).toEqual({
+    expect(result).toMatchObject({ status: 'ok', source: 'live' })
+    expect(result.data).toEqual({
       stars: 100,
       forks: 20,
       contributors: 2,
@@ -90,7 +96,7 @@ describe('useGitHubApi', () => {
       version: 'v1.2.0',
     })
 
-    expect(stats.value).toEqual(result)
+    expect(stats.value).toEqual(result.data)
     expect(isLoading.value).toBe(false)
   })
 
@@ -115,12 +121,17 @@ describe('useGitHubApi', () => {
 
     const result = await fetchStats()
 
-    expect(result).toEqual(cachedData)
+    expect(result).toEqual({
+      status: 'ok',
+      source: 'cache',
+      asOf: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
+      data: cachedData,
+    })
     expect(stats.value).toEqual(cachedData)
     expect(mockFetch).not.toHaveBeenCalled()
   })
 
-  it('ignores stale cached data', async () => {
+  it('serves stale cached data while revalidating in the background', async () => {
     mockLocalStorage.getItem.mockReturnValue(
       JSON.stringify({
         data: { stars: 50 },
@@ -128,31 +139,51 @@ describe('useGitHubApi', () => {
       })
     )
 
-    const mockRepoData = {
-      stargazers_count: 100,
-      forks_count: 20,
-      updated_at: '2025-01-01T00:00:00Z',
+    replay()
+
+    const { fetchStats, stats, statsResult } = useGitHubApi()
+
+    const result = await fetchStats()
+
+    expect(result).toMatchObject({ status: 'stale', source: 'cache', data: { stars: 50 } })
+    await vi.waitFor(() => expect(stats.value?.stars).toBe(100))
+    expect(statsResult.value?.source).toBe('live')
+    expect(mockFetch).toHaveBeenCalled()
+  })
+
+  it('revalidates stale cache entries with their ETag', async () => {
+    const cachedRepo = {
+      data: { stargazers_count: 42, forks_count: 7, updated_at: '2024-12-01T00:00:00Z' },
+      timestamp: Date.now() - 15 * 60 * 1000,
+      etag: 'W/"repo-etag"',
     }
 
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockRepoData),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
+    mockLocalStorage.getItem.mockImplementation((key: string) =>
+      key === 'github-johnnyzhao5619-echonote-repo' ? JSON.stringify(cachedRepo) : null
+    )
 
-    const { fetchStats } = useGitHubApi()
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/repos/johnnyzhao5619/echonote')
+          ? new Response(null, { status: 304 })
+          : jsonResponse([])
+      )
+    )
 
-    await fetchStats()
+    const { fetchStats } = useGitHubApi()
+    const result = await fetchStats()
 
-    expect(mockFetch).toHaveBeenCalled()
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.github.com/repos/johnnyzhao5619/echonote',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'If-None-Match': 'W/"repo-etag"' }),
+      })
+    )
+    expect(result.data?.stars).toBe(42)
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+      'github-johnnyzhao5619-echonote-repo',
+      expect.stringContaining('"etag":"W/\\"repo-etag\\""')
+    )
   })
 
   it('handles localStorage errors gracefully', async () => {
@@ -162,25 +193,7 @@ describe('useGitHubApi', () => {
 
     const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
 
-    const mockRepoData = {
-      stargazers_count: 100,
-      forks_count: 20,
-      updated_at: '2025-01-01T00:00:00Z',
-    }
-
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve(mockRepoData),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
+    replay()
 
     const { fetchStats } = useGitHubApi()
 
@@ -197,24 +210,7 @@ describe('useGitHubApi', () => {
   it('refreshes stats by clearing cache', async () => {
     const { refreshStats } = useGitHubApi()
 
-    mockFetch
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () =>
-          Promise.resolve({
-            stargazers_count: 100,
-            forks_count: 20,
-            updated_at: '2025-01-01T00:00:00Z',
-          }),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-        json: () => Promise.resolve([]),
-      })
+    replay()
 
     await refreshStats()
 
@@ -228,6 +224,134 @@ describe('useGitHubApi', () => {
     )
   })
 
+  it('shares one request and one result between consumers', async () => {
+    mockLocalStorage.getItem.mockReturnValue(null)
+    mockFetch.mockImplementation(createReplayFetch(repositoryFixtures('test/repo', { repo: {} })))
+
+    const hero = useGitHubApi('test/repo')
+    const community = useGitHubApi('test/repo')
+
+    const [heroStats, communityStats] = await Promise.all([
+      hero.fetchStats(),
+      community.fetchStats(),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(heroStats).toBe(communityStats)
+    expect(hero.stats).toBe(community.stats)
+  })
+
+  it('reports a pause instead of zeroed stats when rate limited', async () => {
+    mockLocalStorage.getItem.mockReturnValue(null)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const reset = Math.floor(Date.now() / 1000) + 3600
+    mockFetch.mockResolvedValue(
+      new Response(null, {
+        status: 403,
+        headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) },
+      })
+    )
+
+    const { stats, pausedUntil, rateLimit, fetchStats } = useGitHubApi('test/limited')
+
+    expect(await fetchStats()).toMatchObject({ status: 'error', data: null })
+    expect(stats.value).toBe(null)
+    expect(pausedUntil.value).toBe(reset * 1000)
+    expect(rateLimit.value.remaining).toBe(0)
+  })
+
+  it('keeps expired cached stats when revalidation fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockLocalStorage.getItem.mockImplementation((key: string) =>
+      key.endsWith('-stats')
+        ? JSON.stringify({ data: { stars: 50 }, timestamp: Date.now() - 60 * 60 * 1000 })
+        : null
+    )
+    mockFetch.mockResolvedValue(new Response(null, { status: 500 }))
+    const { fetchStats, statsResult, isRevalidating, error } = useGitHubApi('test/repo')
+
+    await fetchStats()
+    await vi.waitFor(() => expect(isRevalidating.value).toBe(false), { timeout: 10000 })
+
+    expect(statsResult.value).toMatchObject({
+      status: 'stale',
+      source: 'cache',
+      data: { stars: 50 },
+      error: 'HTTP 500: ',
+    })
+    expect(error.value).toBe(null)
+  })
+
+  it('falls back to build-time project info instead of zeros', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockLocalStorage.getItem.mockReturnValue(null)
+    mockFetch.mockResolvedValue(new Response(null, { status: 500 }))
+    const { fetchStats } = useGitHubApi()
+
+    const promise = fetchStats()
+    await vi.runAllTimersAsync()
+    const result = await promise
+
+    expect(result).toMatchObject({
+      status: 'stale',
+      source: 'build',
+      asOf: projectInfo.lastSync,
+      data: { stars: projectInfo.stats.stars, version: projectInfo.version },
+    })
+  })
+
+  it('reports an error without inventing stats for unknown repositories', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockLocalStorage.getItem.mockReturnValue(null)
+    mockFetch.mockResolvedValue(new Response(null, { status: 500 }))
+    const { fetchStats, stats, error } = useGitHubApi('test/unknown')
+
+    const promise = fetchStats()
+    await vi.runAllTimersAsync()
+
+    expect(await promise).toMatchObject({ status: 'error', data: null })
+    expect(stats.value).toBe(null)
+    expect(error.value).toContain('HTTP 500')
+  })
+
+  it('does not report zero contributors when that request fails', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockLocalStorage.getItem.mockReturnValue(null)
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.includes('/contributors')
+          ? new Response(null, { status: 500 })
+          : jsonResponse(url.includes('/releases') ? [] : { stargazers_count: 5 })
+      )
+    )
+    const { fetchStats, stats } = useGitHubApi('test/partial')
+
+    const promise = fetchStats()
+    await vi.runAllTimersAsync()
+
+    expect(await promise).toMatchObject({ status: 'error', data: null })
+    expect(stats.value).toBe(null)
+  })
+
+  it('stops polling when the last consumer is disposed', () => {
+    vi.useFakeTimers()
+    const clearIntervalSpy = vi.spyOn(globalThis, 'clearInterval')
+    const first = effectScope()
+    const second = effectScope()
+
+    first.run(() => useGitHubApi('test/repo', { poll: true }))
+    second.run(() => useGitHubApi('test/repo'))
+
+    first.stop()
+    expect(clearIntervalSpy).not.toHaveBeenCalled()
+
+    second.stop()
+    expect(clearIntervalSpy).toHaveBeenCalledTimes(1)
+  })
+
   it('formats dates correctly', () => {
     const { formatDate } = useGitHubApi()
 
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { clearGitHubStore } from '@/composables/useGitHubApi'
+import { useGitHubRepositories } from '@/composables/useGitHubRepositories'
+
+const jsonResponse = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+const contributor = (login: string, contributions: number) => ({
+  id: contributions,
+  login,
+  avatar_url: '',
+  html_url: `https://github.com/${login}`,
+  contributions,
+})
+
+// Responses keyed by API path
+const responses: Record<string, unknown> = {
+  '/repos/acme/app': { stargazers_count: 100, forks_count: 10, updated_at: '2025-01-01T00:00:00Z' },
+  '/repos/acme/app/contributors': [contributor('alice', 40), contributor('bob', 5)],
+  '/repos/acme/app/releases': [{ tag_name: 'v2.0.0' }, { tag_name: 'v1.0.0' }],
+  '/repos/acme/site': { stargazers_count: 7, forks_count: 1, updated_at: '2025-02-01T00:00:00Z' },
+  '/repos/acme/site/contributors': [contributor('Alice', 8), contributor('carol', 3)],
+  '/repos/acme/site/releases': [],
+}
+
+const mockFetch = vi.fn((input: RequestInfo | URL) => {
+  const { pathname } = new URL(String(input))
+  const body = responses[pathname]
+  return Promise.resolve(
+    body === undefined ? jsonResponse({ message: 'Not Found' }, 404) : jsonResponse(body)
+  )
+})
+global.fetch = mockFetch as typeof fetch
+
+Object.defineProperty(window, 'localStorage', {
+  value: { getItem: vi.fn(), setItem: vi.fn(), removeItem: vi.fn() },
+})
+
+describe('useGitHubRepositories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearGitHubStore()
+    vi.setSystemTime(new Date('2025-03-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('aggregates stats across repositories', async () => {
+    const { fetchStats, fetchContributors, stats } = useGitHubRepositories([
+      'acme/app',
+      'acme/site',
+    ])
+
+    await Promise.all([fetchStats(), fetchContributors()])
+
+    expect(stats.value).toEqual({
+      stars: 107,
+      forks: 11,
+      // alice contributes to both repositories and is counted once
+      contributors: 3,
+      releases: 2,
+      lastUpdate: '2025-02-01T00:00:00Z',
+      version: 'v2.0.0',
+    })
+  })
+
+  it('leaves contributors unknown when a repository list is missing', async () => {
+    const { fetchStats, stats, contributors } = useGitHubRepositories(['acme/app', 'acme/missing'])
+
+    await fetchStats()
+
+    expect(contributors.value).toHaveLength(2)
+    expect(stats.value?.contributors).toBe(null)
+  })
+
+  it('merges contributors by login', async () => {
+    const { fetchContributors } = useGitHubRepositories(['acme/app', 'acme/site'])
+
+    const contributors = await fetchContributors()
+
+    expect(contributors.map(({ login, contributions }) => [login, contributions])).toEqual([
+      ['alice', 48],
+      ['bob', 5],
+      ['carol', 3],
+    ])
+  })
+
+  it('keeps a per-repository breakdown', async () => {
+    const { fetchStats, breakdown } = useGitHubRepositories(['acme/app', 'acme/site'])
+
+    await fetchStats()
+
+    expect(
+      breakdown.value.map(({ repository, url, stats }) => [repository, url, stats?.stars])
+    ).toEqual([
+      ['acme/app', 'https://github.com/acme/app', 100],
+      ['acme/site', 'https://github.com/acme/site', 7],
+    ])
+  })
+
+  it('reports the combined result as stale when one repository fails', async () => {
+    const { fetchStats, stats, breakdown } = useGitHubRepositories(['acme/app', 'acme/missing'])
+
+    const result = await fetchStats()
+
+    expect(result).toMatchObject({ status: 'stale', source: 'live' })
+    expect(stats.value?.stars).toBe(100)
+    expect(breakdown.value[1]?.statsResult?.status).toBe('error')
+  })
+})
@@ -9,10 +9,21 @@ vi.mock('vue-i18n', () => ({
   useI18n: () => mockI18n,
 }))
 
-vi.mock('@/i18n', () => ({
-  setDocumentLanguage: vi.fn(),
+const { loadLocaleMessages, prefetchLocale } = vi.hoisted(() => ({
+  loadLocaleMessages: vi.fn(),
+  prefetchLocale: vi.fn(),
 }))
 
+vi.mock('@/i18n', async () => {
+  const { ref } = await import('vue')
+  return {
+    setDocumentLanguage: vi.fn(),
+    loadingLocale: ref(null),
+    loadLocaleMessages,
+    prefetchLocale,
+  }
+})
+
 // Mock localStorage
 const mockLocalStorage = {
   getItem: vi.fn(),
@@ -39,6 +50,7 @@ describe('useI18n', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockI18n.locale.value = 'en'
+    loadLocaleMessages.mockResolvedValue(undefined)
     vi.spyOn(window, 'dispatchEvent').mockImplementation(() => true)
   })
 
@@ -73,6 +85,7 @@ describe('useI18n', () => {
 
     await changeLanguage('zh-CN')
 
+    expect(loadLocaleMessages).toHaveBeenCalledWith('zh-CN')
     expect(mockI18n.locale.value).toBe('zh-CN')
     expect(mockLocalStorage.setItem).toHaveBeenCalledWith('echonote-language', 'zh-CN')
     expect(window.dispatchEvent).toHaveBeenCalledWith(
@@ -93,6 +106,28 @@ describe('useI18n', () => {
     expect(mockLocalStorage.setItem).not.toHaveBeenCalled()
   })
 
+  it('keeps the current language when its replacement fails to load', async () => {
+    loadLocaleMessages.mockRejectedValue(new Error('offline'))
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { changeLanguage } = useI18n()
+
+    await changeLanguage('fr')
+
+    expect(mockI18n.locale.value).toBe('en')
+    expect(mockLocalStorage.setItem).not.toHaveBeenCalled()
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to load fr messages:', expect.any(Error))
+  })
+
+  it('prefetches supported languages only', () => {
+    const { prefetchLanguage } = useI18n()
+
+    prefetchLanguage('zh-TW')
+    prefetchLanguage('unsupported')
+
+    expect(prefetchLocale).toHaveBeenCalledTimes(1)
+    expect(prefetchLocale).toHaveBeenCalledWith('zh-TW')
+  })
+
   it('handles localStorage errors gracefully', async () => {
     mockLocalStorage.setItem.mockImplementation(() => {
       throw new Error('localStorage error')
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { readdirSync, readFileSync, statSync } from 'fs'
+import { join, relative } from 'path'
+import { defineComponent } from 'vue'
+import { mount } from '@vue/test-utils'
+import { APP_CONFIG } from '@/config/app'
+import {
+  REPOSITORY_KEY,
+  createRepositoryContext,
+  useRepository,
+  type RepositoryContext,
+} from '@/composables/useRepository'
+
+// Third-party projects the site credits; everything else must come from useRepository()
+const ALLOWED_GITHUB_URLS = [
+  'https://github.com/openai/whisper',
+  'https://github.com/psf/black',
+  'https://github.com/Templarian/MaterialDesign',
+]
+
+const GITHUB_URL_PATTERN = /https?:\/\/(?:api\.)?github\.com[^\s'"`<>)]*/g
+
+const listVueFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap(entry => {
+    const path = join(dir, entry)
+    if (statSync(path).isDirectory()) return listVueFiles(path)
+    return path.endsWith('.vue') ? [path] : []
+  })
+
+const captureRepository = (override?: string) => {
+  let captured: RepositoryContext | undefined
+  const Child = defineComponent({
+    setup() {
+      captured = useRepository(override)
+      return () => null
+    },
+  })
+  return { Child, get: () => captured }
+}
+
+describe('createRepositoryContext', () => {
+  it('derives every URL from the configured repository', () => {
+    const repo = createRepositoryContext()
+
+    expect(repo.fullName).toBe(APP_CONFIG.github.repository)
+    expect(repo.url).toBe(APP_CONFIG.github.repoUrl)
+    expect(repo.latestReleaseUrl).toBe(APP_CONFIG.github.latestReleaseUrl)
+    expect(repo.apiUrl).toBe(`${APP_CONFIG.github.apiBase}/repos/${APP_CONFIG.github.repository}`)
+  })
+
+  it('builds branch, wiki and download links for another repository', () => {
+    const repo = createRepositoryContext('acme/notes')
+
+    expect(repo.owner).toBe('acme')
+    expect(repo.repo).toBe('notes')
+    expect(repo.issuesUrl).toBe('https://github.com/acme/notes/issues')
+    expect(repo.fileUrl('CONTRIBUTING.md#testing')).toBe(
+      `https://github.com/acme/notes/blob/${APP_CONFIG.github.defaultBranch}/CONTRIBUTING.md#testing`
+    )
+    expect(repo.wikiPageUrl('Installation')).toBe('https://github.com/acme/notes/wiki/Installation')
+    expect(repo.downloadUrl('EchoNote.dmg')).toBe(
+      'https://github.com/acme/notes/releases/latest/download/EchoNote.dmg'
+    )
+  })
+})
+
+describe('useRepository', () => {
+  it('falls back to APP_CONFIG without a provider', () => {
+    const { Child, get } = captureRepository()
+    mount(Child)
+
+    expect(get()?.fullName).toBe(APP_CONFIG.github.repository)
+  })
+
+  it('injects the provided repository', () => {
+    const { Child, get } = captureRepository()
+    mount(Child, {
+      global: { provide: { [REPOSITORY_KEY as symbol]: createRepositoryContext('acme/notes') } },
+    })
+
+    expect(get()?.url).toBe('https://github.com/acme/notes')
+  })
+
+  it('lets an explicit repository override the provided one', () => {
+    const { Child, get } = captureRepository('acme/other')
+    mount(Child, {
+      global: { provide: { [REPOSITORY_KEY as symbol]: createRepositoryContext('acme/notes') } },
+    })
+
+    expect(get()?.fullName).toBe('acme/other')
+  })
+})
+
+describe('repository URLs in components', () => {
+  it('does not hard-code GitHub URLs', () => {
+    const root = join(__dirname, '../../src')
+    const offenders = listVueFiles(root).flatMap(file =>
+      (readFileSync(file, 'utf-8').match(GITHUB_URL_PATTERN) ?? [])
+        .filter(url => !ALLOWED_GITHUB_URLS.some(allowed => url.startsWith(allowed)))
+        .map(url => `${relative(root, file)}: ${url}`)
+    )
+
+    expect(offenders).toEqual([])
+  })
+})
@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest'
+import { escapeXml } from '@/utils/xml'
+
+describe('escapeXml', () => {
+  it('escapes markup and both quote characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+    )
+  })
+})
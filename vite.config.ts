@@ -63,6 +63,11 @@ export default defineConfig(({ mode }) => {
           // Optimize chunk file names
           chunkFileNames: chunkInfo => {
             const facadeModuleId = chunkInfo.facadeModuleId
+            // Locale bundles get their own folder so the service worker can keep them
+            if (facadeModuleId?.includes('/src/locales/')) {
+              const locale = facadeModuleId.split('/').pop()?.replace('.json', '')
+              return `js/locales/${locale}-[hash].js`
+            }
             if (facadeModuleId) {
               const name = facadeModuleId.split('/').pop()?.replace('.vue', '') || 'chunk'
               return `js/${name}-[hash].js`